@@ -0,0 +1,49 @@
+/**
+ * Compares build times with and without compiler workers on a generated CoffeeScript tree, and checks that both builds
+ * produce the same output. Run with `bun run bench`.
+ */
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { type PluginOptions } from '../src/index.ts';
+
+const MODULE_COUNT = 200;
+
+const tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-bench-'));
+const modules = Array.from({ length: MODULE_COUNT }, (_, index) => `module${index}`);
+const moduleSource = (index: number) =>
+	Array.from(
+		{ length: 50 },
+		(_, line) => `export fn${line} = (items) -> (item * ${index + line} for item in items when item % 2 is 0)\n`,
+	).join('');
+
+await Promise.all(modules.map((name, index) => writeFile(join(tempDir, `${name}.coffee`), moduleSource(index))));
+await writeFile(
+	join(tempDir, 'entry.coffee'),
+	[...modules.map((name) => `import * as ${name} from './${name}.coffee'`), `console.log ${modules.join(', ')}`].join(
+		'\n',
+	),
+);
+
+async function build(options: PluginOptions): Promise<{ output: string; time: number }> {
+	const startTime = performance.now();
+	const { outputs } = await Bun.build({
+		entrypoints: [join(tempDir, 'entry.coffee')],
+		plugins: [Plugin({ config: false, ...options })],
+	});
+
+	return { output: (await outputs[0]?.text()) ?? '', time: performance.now() - startTime };
+}
+
+try {
+	const mainThread = await build({});
+	const workers = await build({ workers: 'auto' });
+
+	console.log(`main thread: ${Math.round(mainThread.time)}ms`);
+	console.log(`workers:     ${Math.round(workers.time)}ms`);
+	console.log(`identical output: ${mainThread.output === workers.output}`);
+
+	process.exitCode = mainThread.output === workers.output ? 0 : 1;
+} finally {
+	await rm(tempDir, { recursive: true, force: true });
+}
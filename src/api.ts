@@ -0,0 +1,170 @@
+import { resolve } from 'node:path';
+import type { RawSourceMap } from 'coffeescript';
+import { createCache } from './cache.ts';
+import { resolveOptions } from './config.ts';
+import type { LintDiagnostic } from './lint.ts';
+import { emitCoffeeScriptFile, type LoaderContext, parseCsonSource } from './loaders.ts';
+import type { PluginOptions } from './options.ts';
+
+export type CompileResult = {
+	/**
+	 * The compiled module, byte for byte as the plugin loads it, including the source map comment if enabled.
+	 */
+	code: string;
+	/**
+	 * Source map of the compiled code, with the `sourcemap` option. External source maps are only returned, never
+	 * written.
+	 */
+	map?: RawSourceMap;
+	/**
+	 * The Bun loader for the code, `jsx` if it contains JSX.
+	 */
+	loader: 'js' | 'jsx';
+	/**
+	 * Lint warnings, with the `lint` option. Lint errors are thrown as a `LintError` instead.
+	 */
+	diagnostics: LintDiagnostic[];
+	/**
+	 * Milliseconds spent reading the file, which is 0 for a source, and compiling it.
+	 */
+	timings: { read: number; compile: number };
+};
+
+export type CsonResult = {
+	data: unknown;
+	/**
+	 * The files merged into the data by `$include` keys, with the `cson` option.
+	 */
+	dependencies: string[];
+	/**
+	 * Milliseconds spent reading the file, which is 0 for a source, and parsing it.
+	 */
+	timings: { read: number; parse: number };
+};
+
+export type CompileSourceOptions = PluginOptions & {
+	/**
+	 * Path the source is compiled as, which decides the overrides that apply and is used in errors and source maps.
+	 */
+	filename: string;
+};
+
+export type ParseCsonOptions = PluginOptions & {
+	/**
+	 * Path the source is parsed as, which decides the schemas that apply and is used in errors.
+	 * @default '<anonymous>.cson'
+	 */
+	filename?: string;
+};
+
+export type Pipeline = {
+	/**
+	 * Compiles a CoffeeScript file, reading it from disk.
+	 */
+	compileFile(path: string): Promise<CompileResult>;
+	/**
+	 * Compiles CoffeeScript source as if it was the given file.
+	 */
+	compileSource(source: string, options: { filename: string }): Promise<CompileResult>;
+	/**
+	 * Parses a CSON file, reading it from disk.
+	 */
+	parseCsonFile(path: string): Promise<CsonResult>;
+	/**
+	 * Parses CSON source as if it was the given file. `$include` keys are resolved relative to the filename.
+	 */
+	parseCson(source: string, options?: { filename?: string }): Promise<CsonResult>;
+};
+
+/**
+ * Creates a pipeline compiling CoffeeScript and parsing CSON with the same options and output as the plugin, including
+ * the config file and overrides. The options are resolved and the cache is opened once, so a pipeline can be reused
+ * across many files. Files are compiled one at a time, without a worker pool.
+ */
+export function createPipeline(pluginOptions: PluginOptions = {}): Pipeline {
+	const options = resolveOptions(pluginOptions);
+	const cache = options.cache ? createCache(options.cache) : undefined;
+
+	/**
+	 * Creates the state of a single call, so that its dependencies and diagnostics don't leak into other calls.
+	 */
+	function createContext(): LoaderContext {
+		return { cache, dependencies: new Map(), diagnostics: [] };
+	}
+
+	async function compile(source: string, path: string, read: number): Promise<CompileResult> {
+		const context = createContext();
+		const start = performance.now();
+		const { contents, sourceMap, loader } = await emitCoffeeScriptFile(source, path, options, context);
+
+		return {
+			code: contents,
+			map: sourceMap,
+			loader,
+			diagnostics: context.diagnostics ?? [],
+			timings: { read, compile: performance.now() - start },
+		};
+	}
+
+	async function parse(source: string, path: string, read: number): Promise<CsonResult> {
+		const context = createContext();
+		const start = performance.now();
+		const data = await parseCsonSource(source, path, options, context);
+
+		return {
+			data,
+			dependencies: context.dependencies?.get(path) ?? [],
+			timings: { read, parse: performance.now() - start },
+		};
+	}
+
+	return {
+		async compileFile(path) {
+			const start = performance.now();
+			const source = await Bun.file(path).text();
+
+			return compile(source, resolve(path), performance.now() - start);
+		},
+		compileSource(source, { filename }) {
+			return compile(source, resolve(filename), 0);
+		},
+		async parseCsonFile(path) {
+			const start = performance.now();
+			const source = await Bun.file(path).text();
+
+			return parse(source, resolve(path), performance.now() - start);
+		},
+		parseCson(source, { filename = '<anonymous>.cson' } = {}) {
+			return parse(source, resolve(filename), 0);
+		},
+	};
+}
+
+/**
+ * Compiles a CoffeeScript file with the same options and output as the plugin, including the config file and
+ * overrides. Use `createPipeline` to compile many files with the same options.
+ */
+export function compileFile(path: string, options: PluginOptions = {}): Promise<CompileResult> {
+	return createPipeline(options).compileFile(path);
+}
+
+/**
+ * Compiles CoffeeScript source as if it was the given file, with the same options and output as the plugin.
+ */
+export function compileSource(source: string, { filename, ...options }: CompileSourceOptions): Promise<CompileResult> {
+	return createPipeline(options).compileSource(source, { filename });
+}
+
+/**
+ * Parses a CSON file with the same options as the plugin, e.g. its schemas and CSON extensions.
+ */
+export function parseCsonFile(path: string, options: PluginOptions = {}): Promise<CsonResult> {
+	return createPipeline(options).parseCsonFile(path);
+}
+
+/**
+ * Parses CSON source with the same options as the plugin. `$include` keys are resolved relative to the filename.
+ */
+export function parseCson(source: string, { filename, ...options }: ParseCsonOptions = {}): Promise<CsonResult> {
+	return createPipeline(options).parseCson(source, { filename });
+}
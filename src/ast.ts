@@ -0,0 +1,34 @@
+import * as CoffeeScript from 'coffeescript';
+
+/**
+ * The subset of the compiler's AST nodes used to inspect a file. They aren't part of its typings, and are told apart by
+ * their class name, e.g. `Assign` or `Code`.
+ */
+export type AstNode = {
+	bound?: boolean;
+	value?: unknown;
+	context?: string;
+	operator?: string;
+	originalOperator?: string;
+	first?: AstNode;
+	base?: AstNode;
+	properties?: AstNode[];
+	variable?: AstNode;
+	name?: AstNode;
+	params?: AstNode[];
+	body?: AstNode;
+	expressions?: AstNode[];
+	locationData?: { first_line: number; first_column: number };
+	eachChild(callback: (child: AstNode) => void): void;
+};
+
+export function getType(node: AstNode | undefined): string | undefined {
+	return node?.constructor.name;
+}
+
+/**
+ * Parses a CoffeeScript file into the compiler's AST, which throws on syntax errors.
+ */
+export function parseNodes(source: string, literate = false): AstNode {
+	return CoffeeScript.nodes(source, { literate } as CoffeeScript.Options) as unknown as AstNode;
+}
@@ -0,0 +1,118 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { type RawSourceMap, VERSION } from 'coffeescript';
+
+export type CacheOptions = {
+	/**
+	 * Directory to store compiled files in, e.g. `node_modules/.cache/bun-coffee`.
+	 */
+	dir: string;
+	/**
+	 * Maximum number of cached files, the least recently used ones are evicted first.
+	 * @default 5000
+	 */
+	maxEntries?: number;
+	/**
+	 * Maximum time in milliseconds a cached file is kept after it was last used.
+	 * @default 604800000 (7 days)
+	 */
+	maxAge?: number;
+};
+
+export type CacheEntry = {
+	js: string;
+	sourceMap?: RawSourceMap;
+	jsx?: boolean;
+};
+
+export type CompilationCache = {
+	key(source: string, options: object, compilerVersion?: string): string;
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+};
+
+function stableStringify(value: unknown): string {
+	return JSON.stringify(value, (_key, nested) =>
+		nested && typeof nested === 'object' && !Array.isArray(nested)
+			? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+			: nested,
+	);
+}
+
+async function prune(dir: string, maxEntries: number, maxAge: number): Promise<void> {
+	const fileNames = await readdir(dir).catch(() => []);
+	const entries = await Promise.all(
+		fileNames.map(async (fileName) => {
+			const path = join(dir, fileName);
+			const { mtimeMs } = await stat(path).catch(() => ({ mtimeMs: 0 }));
+
+			return { path, mtimeMs };
+		}),
+	);
+
+	const expiry = Date.now() - maxAge;
+	const evicted = entries
+		.sort((a, b) => b.mtimeMs - a.mtimeMs)
+		.filter(({ mtimeMs }, index) => index >= maxEntries || mtimeMs < expiry);
+
+	await Promise.all(evicted.map(({ path }) => rm(path, { force: true })));
+}
+
+/**
+ * Creates an on-disk cache for compiled CoffeeScript. Entries are keyed by the source, the effective compiler options
+ * and the compiler version, so a change to any of them results in a fresh compile rather than a stale entry.
+ */
+export function createCache({
+	dir,
+	maxEntries = 5000,
+	maxAge = 7 * 24 * 60 * 60 * 1000,
+}: CacheOptions): CompilationCache {
+	let pruned: Promise<void> | undefined;
+
+	return {
+		key(source, options, compilerVersion = VERSION) {
+			return createHash('sha256')
+				.update(compilerVersion)
+				.update('\0')
+				.update(stableStringify(options))
+				.update('\0')
+				.update(source)
+				.digest('hex');
+		},
+
+		async get(key) {
+			pruned ??= prune(dir, maxEntries, maxAge);
+			await pruned;
+
+			const path = join(dir, `${key}.json`);
+
+			try {
+				const entry: CacheEntry = JSON.parse(await readFile(path, 'utf8'));
+				const now = new Date();
+
+				await utimes(path, now, now);
+
+				return entry;
+			} catch {
+				return undefined;
+			}
+		},
+
+		async set(key, entry) {
+			const path = join(dir, `${key}.json`);
+			const tempPath = `${path}.${process.pid}.tmp`;
+
+			await mkdir(dir, { recursive: true });
+			await writeFile(tempPath, JSON.stringify(entry));
+			await rename(tempPath, path);
+		},
+	};
+}
+
+/**
+ * Removes all compiled files from a cache directory.
+ */
+export async function clearCache(dir: string): Promise<void> {
+	await rm(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,399 @@
+#!/usr/bin/env bun
+import { type FSWatcher, statSync, watch } from 'node:fs';
+import { rm } from 'node:fs/promises';
+import { basename, dirname, join, relative, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createCache } from './cache.ts';
+import { resolveOptions } from './config.ts';
+import type { DeclarationOptions } from './declarations.ts';
+import { writeCoffeeScriptDeclarations } from './jsdoc.ts';
+import { emitCoffeeScriptFile, type LoaderContext, readCsonFile } from './loaders.ts';
+import { MACRO_PATTERN } from './macro.ts';
+import type { PluginOptions } from './options.ts';
+import { DEFAULT_EXTENSIONS, resolveImport } from './resolve.ts';
+import { attachSourceMap, type SourceMapMode } from './sourcemap.ts';
+import { createWorkerPool } from './workers.ts';
+
+type CsonFormat = 'json' | 'module';
+
+type BuildContext = {
+	srcDir: string;
+	outDir: string;
+	options: PluginOptions;
+	loaderContext: LoaderContext;
+	sourcemap: SourceMapMode;
+	cson: CsonFormat;
+	check: boolean;
+	declarations?: DeclarationOptions;
+};
+
+type ParsedArguments = NonNullable<ReturnType<typeof parseArguments>>;
+
+type BuildResult = {
+	files: number;
+	errors: number;
+};
+
+const USAGE = `Usage: coffee-bun <src> --out-dir <dir> [options]
+
+Compiles the CoffeeScript and CSON files in <src> to JavaScript and JSON in <dir>, mirroring the directory layout.
+
+Options:
+  -o, --out-dir <dir>     Directory to write compiled files to
+  -m, --sourcemap <mode>  Source maps to write: inline, external or none (default: none)
+      --cson <format>     Compile CSON files to json or module (default: json)
+  -c, --config <file>     Read options from the given config file
+  -w, --watch             Recompile files in <src> as they change, restart to apply config changes
+  -d, --declarations      Write declarations for CoffeeScript and CSON files, typed after their JSDoc annotations
+      --types-dir <dir>   Directory to write declarations to, instead of next to the sources
+      --check             Only report errors, without writing any files
+  -h, --help              Show this help
+`;
+
+const SOURCE_PATTERN = /\.(coffee|litcoffee|coffee\.md|cjsx|cson)$/;
+const IMPORT_PATTERN = /(\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(['"])(\.{1,2}\/[^'"]*)\2/g;
+
+class UsageError extends Error {
+	override name = 'UsageError';
+}
+
+function getOutputName(path: string, cson: CsonFormat): string {
+	return path.replace(SOURCE_PATTERN, (extension) => (extension === '.cson' && cson === 'json' ? '.json' : '.js'));
+}
+
+function toSpecifier(path: string): string {
+	return path.startsWith('.') ? path : `./${path}`;
+}
+
+/**
+ * Points relative imports of CoffeeScript and CSON files at their compiled counterparts, including extensionless and
+ * directory imports that the plugin would resolve. Imports of CSON compiled to JSON get the `json` import attribute,
+ * which Node requires, and macro imports point at the compiled module, since the CLI doesn't run macros.
+ */
+function rewriteImports(js: string, path: string, context: BuildContext): string {
+	const extensions =
+		context.options.resolve === false ? [] : (context.options.resolve?.extensions ?? DEFAULT_EXTENSIONS);
+
+	return js.replace(IMPORT_PATTERN, (statement, prefix: string, quote: string, querySpecifier: string) => {
+		const specifier = querySpecifier.replace(MACRO_PATTERN, '');
+		const target = SOURCE_PATTERN.test(specifier)
+			? resolve(dirname(path), specifier)
+			: extensions.length > 0
+				? resolveImport(specifier, path, dirname(path), extensions)
+				: undefined;
+
+		if (!target || !SOURCE_PATTERN.test(target)) {
+			return statement;
+		}
+
+		const outputName = getOutputName(target, context.cson);
+		const outputSpecifier = `${quote}${toSpecifier(relative(dirname(path), outputName))}${quote}`;
+
+		if (!outputName.endsWith('.json')) {
+			return `${prefix}${outputSpecifier}`;
+		}
+
+		return prefix.includes('(')
+			? `${prefix}${outputSpecifier}, { with: { type: 'json' } }`
+			: `${prefix}${outputSpecifier} with { type: 'json' }`;
+	});
+}
+
+async function compileCoffeeScriptFile(path: string, outFile: string, context: BuildContext): Promise<void> {
+	// Compiled like the plugin does, with the source map kept apart to point it at the output file
+	const { contents: js, sourceMap } = await emitCoffeeScriptFile(
+		await Bun.file(path).text(),
+		path,
+		{
+			...context.options,
+			sourcemap: context.sourcemap === 'none' ? 'none' : 'external',
+			hmr: false,
+			stackTraces: false,
+		},
+		context.loaderContext,
+	);
+
+	if (context.check) {
+		return;
+	}
+
+	const contents = rewriteImports(js, path, context);
+
+	if (context.sourcemap === 'none' || !sourceMap) {
+		await Bun.write(outFile, contents);
+
+		return;
+	}
+
+	const outputMap = { ...sourceMap, file: basename(outFile), sources: [relative(dirname(outFile), path)] };
+
+	await Bun.write(outFile, await attachSourceMap(contents, outputMap, outFile, context.sourcemap));
+}
+
+async function compileCsonFile(path: string, outFile: string, context: BuildContext): Promise<void> {
+	const value = await readCsonFile(
+		path,
+		{ ...context.options, declarations: context.declarations },
+		context.loaderContext,
+	);
+	const json = JSON.stringify(value, null, '\t');
+
+	if (!context.check) {
+		await Bun.write(outFile, context.cson === 'json' ? `${json}\n` : `export default ${json};\n`);
+	}
+}
+
+function reportError(path: string, error: unknown): void {
+	const message = error instanceof Error ? error.message : String(error);
+
+	console.error(message.includes(path) ? message : `${relative(process.cwd(), path)}: ${message}`);
+	console.error('');
+}
+
+async function compileFile(path: string, context: BuildContext): Promise<unknown> {
+	const outFile = join(context.outDir, getOutputName(relative(context.srcDir, path), context.cson));
+
+	try {
+		if (path.endsWith('.cson')) {
+			await compileCsonFile(path, outFile, context);
+		} else {
+			await compileCoffeeScriptFile(path, outFile, context);
+		}
+	} catch (error) {
+		return error;
+	}
+}
+
+/**
+ * Compiles the given files, reporting all errors rather than stopping at the first one. Files are compiled
+ * concurrently when there is a worker pool, errors are still reported in order.
+ */
+async function build(paths: string[], context: BuildContext): Promise<BuildResult> {
+	const errors = await Promise.all(paths.map((path) => compileFile(path, context)));
+
+	errors.forEach((error, index) => {
+		if (error) {
+			reportError(paths[index] as string, error);
+		}
+	});
+
+	const errorCount = errors.filter(Boolean).length;
+
+	if (!context.declarations || errorCount > 0) {
+		return { files: paths.length, errors: errorCount };
+	}
+
+	return { files: paths.length, errors: await writeDeclarations(paths, context, context.declarations) };
+}
+
+/**
+ * Writes the declarations of the compiled CoffeeScript files, warning about exports without type annotations. CSON
+ * declarations are already written while compiling.
+ */
+async function writeDeclarations(paths: string[], context: BuildContext, options: DeclarationOptions): Promise<number> {
+	const coffeeScriptPaths = paths.filter((path) => !path.endsWith('.cson'));
+
+	try {
+		const results = await writeCoffeeScriptDeclarations(coffeeScriptPaths, options, context.options);
+
+		for (const { file, unannotated } of results.filter(({ unannotated }) => unannotated.length > 0)) {
+			console.warn(`${relative(process.cwd(), file)}: missing type annotations for ${unannotated.join(', ')}`);
+		}
+
+		return 0;
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : error);
+
+		return 1;
+	}
+}
+
+function isIgnored(path: string, context: BuildContext): boolean {
+	return (
+		relative(context.srcDir, path).split(/[\\/]/).includes('node_modules') ||
+		(!context.check && resolve(path).startsWith(`${context.outDir}/`))
+	);
+}
+
+async function findSources(context: BuildContext): Promise<string[]> {
+	const paths = await Array.fromAsync(
+		new Bun.Glob('**/*.{coffee,litcoffee,coffee.md,cjsx,cson}').scan({ cwd: context.srcDir, absolute: true }),
+	);
+
+	return paths.filter((path) => !isIgnored(path, context)).sort();
+}
+
+function printSummary({ files, errors }: BuildResult, context: BuildContext, startTime: number): void {
+	const verb = context.check ? 'Checked' : 'Compiled';
+	const fileCount = `${files} ${files === 1 ? 'file' : 'files'}`;
+	const errorCount = errors === 0 ? 'no errors' : `${errors} ${errors === 1 ? 'error' : 'errors'}`;
+
+	console.log(`${verb} ${fileCount} with ${errorCount} in ${Math.round(performance.now() - startTime)}ms`);
+}
+
+/**
+ * Recompiles files as they change, removing the compiled files of deleted sources. Changes arriving in quick
+ * succession, e.g. from an editor saving several files, are compiled together. Only the source directory is watched,
+ * options are read from the config file once at startup.
+ */
+function watchSources(context: BuildContext): FSWatcher {
+	const changedPaths = new Set<string>();
+	let timeout: Timer | undefined;
+
+	const flush = async () => {
+		// CSON files are recompiled along with the files they include
+		for (const [path, dependencies] of context.loaderContext.dependencies ?? []) {
+			if (dependencies.some((dependency) => changedPaths.has(dependency))) {
+				changedPaths.add(path);
+			}
+		}
+
+		const paths = [...changedPaths].sort();
+		const startTime = performance.now();
+		changedPaths.clear();
+
+		const existingPaths = paths.filter((path) => statSync(path, { throwIfNoEntry: false })?.isFile());
+		const deletedPaths = paths.filter((path) => !existingPaths.includes(path));
+
+		if (!context.check) {
+			for (const path of deletedPaths) {
+				const outFile = join(context.outDir, getOutputName(relative(context.srcDir, path), context.cson));
+
+				await Promise.all([rm(outFile, { force: true }), rm(`${outFile}.map`, { force: true })]);
+			}
+		}
+
+		printSummary(await build(existingPaths, context), context, startTime);
+	};
+
+	return watch(context.srcDir, { recursive: true }, (_event, fileName) => {
+		const path = fileName ? join(context.srcDir, fileName.toString()) : undefined;
+
+		if (!path || !SOURCE_PATTERN.test(path) || isIgnored(path, context)) {
+			return;
+		}
+
+		changedPaths.add(path);
+		clearTimeout(timeout);
+		timeout = setTimeout(flush, 50);
+	});
+}
+
+function parseArguments(args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			'out-dir': { type: 'string', short: 'o' },
+			sourcemap: { type: 'string', short: 'm' },
+			cson: { type: 'string', default: 'json' },
+			config: { type: 'string', short: 'c' },
+			watch: { type: 'boolean', short: 'w', default: false },
+			declarations: { type: 'boolean', short: 'd', default: false },
+			'types-dir': { type: 'string' },
+			check: { type: 'boolean', default: false },
+			help: { type: 'boolean', short: 'h', default: false },
+		},
+	});
+
+	if (values.help) {
+		return undefined;
+	}
+
+	const [src, ...extraArgs] = positionals;
+
+	if (!src || extraArgs.length > 0) {
+		throw new UsageError('Expected exactly one source directory');
+	}
+
+	if (!statSync(src, { throwIfNoEntry: false })?.isDirectory()) {
+		throw new UsageError(`Source directory ${src} does not exist`);
+	}
+
+	if (!values['out-dir'] && !values.check) {
+		throw new UsageError('Missing --out-dir, which is required unless running with --check');
+	}
+
+	if (values.sourcemap && !['inline', 'external', 'none'].includes(values.sourcemap)) {
+		throw new UsageError(`Invalid --sourcemap "${values.sourcemap}", expected inline, external or none`);
+	}
+
+	if (!['json', 'module'].includes(values.cson)) {
+		throw new UsageError(`Invalid --cson "${values.cson}", expected json or module`);
+	}
+
+	return { values, src };
+}
+
+/**
+ * Sets up the build from the parsed arguments and the options in the config file.
+ */
+function createContext({ values, src }: ParsedArguments): BuildContext {
+	const options = resolveOptions({ config: values.config });
+
+	return {
+		srcDir: resolve(src),
+		outDir: resolve(values['out-dir'] ?? src),
+		options,
+		loaderContext: {
+			cache: options.cache ? createCache(options.cache) : undefined,
+			pool: options.workers === undefined ? undefined : createWorkerPool(options.workers),
+			dependencies: new Map(),
+		},
+		sourcemap: (values.sourcemap ?? options.sourcemap ?? 'none') as SourceMapMode,
+		cson: values.cson as CsonFormat,
+		check: values.check,
+		declarations:
+			values.declarations || values['types-dir']
+				? { check: values.check, outDir: values['types-dir'], rootDir: resolve(src) }
+				: undefined,
+	};
+}
+
+async function main(args: string[]): Promise<number> {
+	let parsedArguments: ParsedArguments | undefined;
+
+	try {
+		parsedArguments = parseArguments(args);
+	} catch (error) {
+		console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+
+		return 2;
+	}
+
+	if (!parsedArguments) {
+		console.log(USAGE);
+
+		return 0;
+	}
+
+	let context: BuildContext;
+
+	// Errors in the config file are reported like compile errors rather than as invalid arguments
+	try {
+		context = createContext(parsedArguments);
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : String(error));
+
+		return 1;
+	}
+
+	const { watch } = parsedArguments.values;
+	const startTime = performance.now();
+	const result = await build(await findSources(context), context);
+
+	printSummary(result, context, startTime);
+
+	if (watch) {
+		watchSources(context);
+		console.log(`Watching ${relative(process.cwd(), context.srcDir) || '.'} for changes...`);
+
+		return 0;
+	}
+
+	context.loaderContext.pool?.terminate();
+
+	return result.errors > 0 ? 1 : 0;
+}
+
+process.exitCode = await main(process.argv.slice(2));
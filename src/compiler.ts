@@ -0,0 +1,55 @@
+import { createRequire } from 'node:module';
+import { join } from 'node:path';
+import * as CoffeeScript from 'coffeescript';
+import { ConfigError } from './errors.ts';
+
+/**
+ * A CoffeeScript compiler, e.g. the `coffeescript` module itself or a pinned 1.x build. Its `compile` has to return
+ * the code, or `{ js, v3SourceMap }` when called with `sourceMap: true`.
+ */
+export type CoffeeScriptCompiler = {
+	compile(source: string, options?: object): string | { js: string; v3SourceMap: string };
+	/**
+	 * Recorded in cache keys and error messages, so that files compiled by different compilers are told apart.
+	 */
+	VERSION?: string;
+};
+
+/**
+ * Loads the given compiler, resolving a module name from the working directory. Without one, the bundled
+ * `coffeescript` module is used.
+ */
+export function loadCompiler(compiler?: CoffeeScriptCompiler | string): CoffeeScriptCompiler {
+	if (compiler === undefined) {
+		return CoffeeScript as CoffeeScriptCompiler;
+	}
+
+	if (typeof compiler !== 'string') {
+		return compiler;
+	}
+
+	let module: unknown;
+
+	try {
+		module = createRequire(join(process.cwd(), 'package.json'))(compiler);
+	} catch {
+		throw new ConfigError(`Cannot load the CoffeeScript compiler "${compiler}", install it first`, compiler, [
+			'compiler',
+		]);
+	}
+
+	const loadedCompiler = (module as { default?: unknown }).default ?? module;
+
+	if (typeof (loadedCompiler as Partial<CoffeeScriptCompiler>).compile !== 'function') {
+		throw new ConfigError(`The module "${compiler}" has no compile function`, compiler, ['compiler']);
+	}
+
+	return loadedCompiler as CoffeeScriptCompiler;
+}
+
+/**
+ * The version of a compiler, if it has one. Without it, a custom compiler can't be told apart from another one.
+ */
+export function getCompilerVersion(compiler: CoffeeScriptCompiler): string | undefined {
+	return compiler.VERSION;
+}
@@ -0,0 +1,204 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { compile } from 'coffeescript';
+import { parseCson } from './cson.ts';
+import { ConfigError, createCompileError } from './errors.ts';
+import { lintRules, lintSeverities } from './lint.ts';
+import { compilerOptionKeys, overrideOptionKeys, type PluginOptions, pluginOptionKeys } from './options.ts';
+
+export const CONFIG_FILES = ['coffee.config.cson', 'coffee.config.coffee'];
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Evaluates a CoffeeScript config file, which either has a default export or assigns `module.exports`. It is compiled
+ * to a temporary file, so it has to be self-contained.
+ */
+function evaluateCoffeeScript(path: string): unknown {
+	const fileContents = readFileSync(path, 'utf8');
+	let js: string;
+
+	try {
+		js = compile(fileContents, { bare: true, filename: path });
+	} catch (error) {
+		throw createCompileError(error, path, fileContents);
+	}
+
+	const tempFile = join(tmpdir(), `coffee.config.${process.pid}.${Date.now()}.js`);
+	writeFileSync(tempFile, js);
+
+	try {
+		const exports = require(tempFile);
+
+		return exports.default ?? exports;
+	} finally {
+		rmSync(tempFile, { force: true });
+	}
+}
+
+function readConfigFile(path: string): unknown {
+	if (path.endsWith('.coffee')) {
+		return evaluateCoffeeScript(path);
+	}
+
+	if (path.endsWith('package.json')) {
+		return JSON.parse(readFileSync(path, 'utf8')).coffeescript;
+	}
+
+	return parseCson(path, readFileSync(path, 'utf8'));
+}
+
+/**
+ * Searches the given directory and its parents for a `coffee.config.cson`, a `coffee.config.coffee` or a `package.json`
+ * with a `coffeescript` key, returning the path of the first one found.
+ */
+export function findConfig(cwd: string = process.cwd()): string | undefined {
+	let directory = resolve(cwd);
+
+	while (true) {
+		const configFile = CONFIG_FILES.map((fileName) => join(directory, fileName)).find((path) => existsSync(path));
+
+		if (configFile) {
+			return configFile;
+		}
+
+		const packageFile = join(directory, 'package.json');
+
+		if (existsSync(packageFile) && JSON.parse(readFileSync(packageFile, 'utf8')).coffeescript !== undefined) {
+			return packageFile;
+		}
+
+		const parentDirectory = dirname(directory);
+
+		if (parentDirectory === directory) {
+			return undefined;
+		}
+
+		directory = parentDirectory;
+	}
+}
+
+/**
+ * Throws a `ConfigError` if the `lint` option names a rule or a severity that doesn't exist, which would otherwise be
+ * ignored.
+ */
+function validateLintOptions(lint: unknown, source: string): void {
+	if (lint === undefined || typeof lint === 'boolean') {
+		return;
+	}
+
+	if (!lint || typeof lint !== 'object' || Array.isArray(lint)) {
+		throw new ConfigError(`Expected the lint option in ${source} to be a boolean or an object`, source, ['lint']);
+	}
+
+	const entries = Object.entries(lint);
+	const invalidRules = entries.map(([rule]) => rule).filter((rule) => !(lintRules as readonly string[]).includes(rule));
+
+	if (invalidRules.length > 0) {
+		throw new ConfigError(
+			`Unknown lint ${invalidRules.length === 1 ? 'rule' : 'rules'} ${invalidRules.map((rule) => `"${rule}"`).join(', ')} in ${source}. Valid rules are ${lintRules.join(', ')}.`,
+			source,
+			invalidRules.map((rule) => `lint.${rule}`),
+		);
+	}
+
+	const invalidEntry = entries.find(([, severity]) => !(lintSeverities as readonly unknown[]).includes(severity));
+
+	if (invalidEntry) {
+		throw new ConfigError(
+			`Invalid severity ${JSON.stringify(invalidEntry[1])} of the lint rule "${invalidEntry[0]}" in ${source}, expected ${lintSeverities.join(', ')}.`,
+			source,
+			[`lint.${invalidEntry[0]}`],
+		);
+	}
+}
+
+/**
+ * Throws a `ConfigError` if an override has no `include` glob or sets options that can't be set per file.
+ */
+function validateOverrides(overrides: unknown, source: string): void {
+	if (overrides === undefined) {
+		return;
+	}
+
+	if (!Array.isArray(overrides)) {
+		throw new ConfigError(`Expected the overrides option in ${source} to be an array`, source, ['overrides']);
+	}
+
+	const validKeys: string[] = [...compilerOptionKeys, ...overrideOptionKeys].sort();
+
+	for (const [index, override] of overrides.entries()) {
+		const key = `overrides[${index}]`;
+
+		if (!override || typeof override !== 'object' || typeof override.include !== 'string') {
+			throw new ConfigError(`Expected ${key} in ${source} to have an include glob`, source, [`${key}.include`]);
+		}
+
+		if (!override.options || typeof override.options !== 'object' || Array.isArray(override.options)) {
+			throw new ConfigError(`Expected the options of ${key} in ${source} to be an object`, source, [`${key}.options`]);
+		}
+
+		const invalidKeys = Object.keys(override.options).filter((option) => !validKeys.includes(option));
+
+		if (invalidKeys.length > 0) {
+			throw new ConfigError(
+				`Unknown ${invalidKeys.length === 1 ? 'option' : 'options'} ${invalidKeys.map((option) => `"${option}"`).join(', ')} in ${key} of ${source}. Valid options are ${validKeys.join(', ')}.`,
+				source,
+				invalidKeys.map((option) => `${key}.options.${option}`),
+			);
+		}
+	}
+}
+
+/**
+ * Throws a `ConfigError` if the options contain keys that are neither compiler nor plugin options, so that typos
+ * don't go unnoticed.
+ */
+export function validateOptions(options: unknown, source: string): asserts options is PluginOptions {
+	if (!options || typeof options !== 'object' || Array.isArray(options)) {
+		throw new ConfigError(`Expected the options in ${source} to be an object`, source, []);
+	}
+
+	const validKeys = new Set<string>([...compilerOptionKeys, ...pluginOptionKeys]);
+	const invalidKeys = Object.keys(options).filter((key) => !validKeys.has(key));
+
+	if (invalidKeys.length > 0) {
+		throw new ConfigError(
+			`Unknown ${invalidKeys.length === 1 ? 'option' : 'options'} ${invalidKeys.map((key) => `"${key}"`).join(', ')} in ${source}. Valid options are ${[...validKeys].sort().join(', ')}.`,
+			source,
+			invalidKeys,
+		);
+	}
+
+	validateLintOptions((options as PluginOptions).lint, source);
+	validateOverrides((options as PluginOptions).overrides, source);
+}
+
+/**
+ * Loads and validates the project configuration, either from the given file or from the first one found by searching
+ * upwards from the working directory. Returns empty options if there is none.
+ */
+export function loadConfig(configFile?: string, cwd: string = process.cwd()): PluginOptions {
+	const path = configFile ? resolve(cwd, configFile) : findConfig(cwd);
+
+	if (!path) {
+		return {};
+	}
+
+	const options = readConfigFile(path);
+
+	validateOptions(options, path);
+
+	return options;
+}
+
+/**
+ * Validates the options passed to the plugin and merges them on top of those from the config file.
+ */
+export function resolveOptions(options: PluginOptions): PluginOptions {
+	validateOptions(options, 'the plugin options');
+
+	return options.config === false ? options : { ...loadConfig(options.config), ...options };
+}
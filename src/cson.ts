@@ -0,0 +1,150 @@
+import { dirname, resolve } from 'node:path';
+import CSON from 'cson-parser';
+import { createCompileError } from './errors.ts';
+
+/**
+ * Parses the contents of a CSON file, reporting syntax errors with their location in the file.
+ */
+export function parseCson(path: string, fileContents: string): unknown {
+	try {
+		return CSON.parse(fileContents);
+	} catch (error) {
+		throw createCompileError(error, path, fileContents);
+	}
+}
+
+/**
+ * Reads and parses a CSON file.
+ */
+export async function readCson(path: string): Promise<unknown> {
+	return parseCson(path, await Bun.file(path).text());
+}
+
+export type CsonOptions = {
+	/**
+	 * Deep-merge the files referenced by `$include` keys, relative to the including file, underneath the keys next to
+	 * them. Objects are merged, other values replaced. Only the watch mode of `coffee-bun` reloads a file when a file
+	 * it includes changes.
+	 * @default false
+	 */
+	include?: boolean;
+	/**
+	 * Variables to interpolate into string values, written `${NAME}` or `${NAME:-default}`. Without it, strings are left
+	 * as they are.
+	 */
+	env?: Record<string, string | undefined>;
+};
+
+export type ExpandedCson = {
+	value: unknown;
+	/**
+	 * The files included, directly or not, by the expanded file.
+	 */
+	dependencies: string[];
+};
+
+const ENV_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function mergeDeep(base: unknown, override: unknown): unknown {
+	if (!isPlainObject(base) || !isPlainObject(override)) {
+		return override;
+	}
+
+	const merged = { ...base };
+
+	for (const [key, value] of Object.entries(override)) {
+		merged[key] = mergeDeep(merged[key], value);
+	}
+
+	return merged;
+}
+
+function interpolate(value: string, path: string, env: Record<string, string | undefined>): string {
+	return value.replace(ENV_PATTERN, (_reference, name: string, defaultValue: string | undefined) => {
+		const variable = env[name];
+
+		if (variable) {
+			return variable;
+		}
+
+		if (defaultValue === undefined && variable === undefined) {
+			throw new Error(`${path}: environment variable ${name} is not set and has no default`);
+		}
+
+		return defaultValue ?? '';
+	});
+}
+
+async function expandValue(
+	value: unknown,
+	path: string,
+	options: CsonOptions,
+	includeStack: string[],
+	dependencies: Set<string>,
+): Promise<unknown> {
+	if (typeof value === 'string') {
+		return options.env ? interpolate(value, path, options.env) : value;
+	}
+
+	if (Array.isArray(value)) {
+		return Promise.all(value.map((item) => expandValue(item, path, options, includeStack, dependencies)));
+	}
+
+	if (!isPlainObject(value)) {
+		return value;
+	}
+
+	const includes = options.include && '$include' in value ? [value.$include].flat() : [];
+	const members: Record<string, unknown> = {};
+	let expanded: unknown = {};
+
+	for (const include of includes) {
+		if (typeof include !== 'string') {
+			throw new Error(`${path}: $include expects a path or a list of paths, got ${JSON.stringify(include)}`);
+		}
+
+		expanded = mergeDeep(
+			expanded,
+			await includeFile(resolve(dirname(path), include), options, includeStack, dependencies),
+		);
+	}
+
+	for (const [key, member] of Object.entries(value)) {
+		if (!options.include || key !== '$include') {
+			members[key] = await expandValue(member, path, options, includeStack, dependencies);
+		}
+	}
+
+	return mergeDeep(expanded, members);
+}
+
+async function includeFile(
+	path: string,
+	options: CsonOptions,
+	includeStack: string[],
+	dependencies: Set<string>,
+): Promise<unknown> {
+	if (includeStack.includes(path)) {
+		throw new Error(`Circular $include: ${[...includeStack, path].join(' -> ')}`);
+	}
+
+	dependencies.add(path);
+
+	return expandValue(await readCson(path), path, options, [...includeStack, path], dependencies);
+}
+
+/**
+ * Applies the opt-in CSON extensions to a parsed file: `$include` keys and environment variable interpolation.
+ */
+export async function expandCson(path: string, value: unknown, options: CsonOptions = {}): Promise<ExpandedCson> {
+	const dependencies = new Set<string>();
+
+	return {
+		value: await expandValue(value, path, options, [path], dependencies),
+		dependencies: [...dependencies],
+	};
+}
@@ -0,0 +1,180 @@
+import { basename, join, relative, resolve } from 'node:path';
+import { readCson } from './cson.ts';
+
+export type DeclarationOptions = {
+	/**
+	 * Fail instead of writing declarations, when a declaration is missing or out of date.
+	 * @default false
+	 */
+	check?: boolean;
+	/**
+	 * Directory to write declarations to, mirroring the paths of the sources relative to `rootDir`. By default,
+	 * declarations are written next to the sources.
+	 */
+	outDir?: string;
+	/**
+	 * Directory whose layout `outDir` mirrors.
+	 * @default process.cwd()
+	 */
+	rootDir?: string;
+};
+
+export type DeclarationResult = {
+	file: string;
+	declarationFile: string;
+	status: 'unchanged' | 'written' | 'outdated';
+};
+
+/**
+ * Arrays with more distinct primitive values than this are typed by their primitive type rather than a literal union.
+ */
+const MAX_LITERAL_UNION = 10;
+
+function formatKey(key: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function widenType(value: unknown): string {
+	return value === null ? 'null' : typeof value;
+}
+
+function inferArrayType(values: unknown[], indent: string): string {
+	const isPrimitive = values.every((value) => value === null || typeof value !== 'object');
+	const literalTypes = new Set(values.map((value) => inferType(value, indent, !isPrimitive)));
+	const types = isPrimitive && literalTypes.size > MAX_LITERAL_UNION ? new Set(values.map(widenType)) : literalTypes;
+
+	if (types.size === 0) {
+		return 'unknown[]';
+	}
+
+	const elementType = [...types].join(' | ');
+
+	return types.size === 1 ? `${elementType}[]` : `(${elementType})[]`;
+}
+
+function inferObjectType(value: object, indent: string, widen: boolean): string {
+	const entries = Object.entries(value);
+
+	if (entries.length === 0) {
+		return 'Record<string, never>';
+	}
+
+	const members = entries.map(
+		([key, member]) => `${indent}\t${formatKey(key)}: ${inferType(member, `${indent}\t`, widen)};`,
+	);
+
+	return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Infers a TypeScript type from a parsed CSON value. Primitives are typed as literals, unless they are part of an
+ * array of objects, where differing values would otherwise produce a union of near-identical shapes.
+ */
+function inferType(value: unknown, indent: string, widen = false): string {
+	if (value === null) {
+		return 'null';
+	}
+
+	if (Array.isArray(value)) {
+		return inferArrayType(value, indent);
+	}
+
+	switch (typeof value) {
+		case 'object':
+			return inferObjectType(value, indent, widen);
+		case 'number':
+			return widen || !Number.isFinite(value) ? 'number' : String(value);
+		case 'string':
+		case 'boolean':
+			return widen ? typeof value : JSON.stringify(value);
+		default:
+			return 'unknown';
+	}
+}
+
+/**
+ * Generates the contents of a declaration file for a CSON file, typing its default export after the parsed data.
+ */
+export function createCsonDeclaration(path: string, value: unknown): string {
+	return [
+		`// Generated by bun-plugin-coffeescript from ${basename(path)}, do not edit.`,
+		`declare const content: ${inferType(value, '')};`,
+		'export default content;',
+		'',
+	].join('\n');
+}
+
+/**
+ * Returns the path of the declaration file for a source, e.g. `config.cson.d.ts` for `config.cson`.
+ */
+export function getDeclarationFile(file: string, { outDir, rootDir = process.cwd() }: DeclarationOptions = {}): string {
+	return outDir ? join(resolve(outDir), `${relative(rootDir, resolve(file))}.d.ts`) : `${file}.d.ts`;
+}
+
+/**
+ * Writes a declaration file unless it is up to date. In check mode, nothing is written and an outdated declaration is
+ * only reported.
+ */
+export async function writeDeclaration(
+	file: string,
+	declaration: string,
+	options: DeclarationOptions = {},
+): Promise<DeclarationResult> {
+	const declarationFile = getDeclarationFile(file, options);
+	const existingDeclaration = await Bun.file(declarationFile)
+		.text()
+		.catch(() => undefined);
+
+	if (existingDeclaration === declaration) {
+		return { file, declarationFile, status: 'unchanged' };
+	}
+
+	if (options.check) {
+		return { file, declarationFile, status: 'outdated' };
+	}
+
+	await Bun.write(declarationFile, declaration);
+
+	return { file, declarationFile, status: 'written' };
+}
+
+/**
+ * Writes the declaration for a parsed CSON file, unless it is up to date.
+ */
+export async function writeCsonDeclaration(
+	file: string,
+	value: unknown,
+	options: DeclarationOptions = {},
+): Promise<DeclarationResult> {
+	return writeDeclaration(file, createCsonDeclaration(file, value), options);
+}
+
+/**
+ * Throws if any of the results is an outdated declaration.
+ */
+export function assertDeclarationsUpToDate(results: DeclarationResult[]): void {
+	const outdated = results.filter(({ status }) => status === 'outdated');
+
+	if (outdated.length > 0) {
+		throw new Error(
+			`Declarations are out of date: ${outdated.map(({ declarationFile }) => declarationFile).join(', ')}. Run without check mode to update them.`,
+		);
+	}
+}
+
+/**
+ * Writes a `.d.ts` file next to each CSON file, e.g. `config.cson.d.ts` for `config.cson`. In check mode, nothing is
+ * written and an error is thrown if any declaration is missing or out of date.
+ */
+export async function writeCsonDeclarations(
+	paths: string[],
+	options: DeclarationOptions = {},
+): Promise<DeclarationResult[]> {
+	const results = await Promise.all(
+		paths.map(async (file) => writeCsonDeclaration(file, await readCson(file), options)),
+	);
+
+	assertDeclarationsUpToDate(results);
+
+	return results;
+}
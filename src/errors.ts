@@ -0,0 +1,218 @@
+import type { LintDiagnostic } from './lint.ts';
+import type { SchemaIssue } from './schema.ts';
+
+/**
+ * Zero-based location data as attached to errors by the CoffeeScript compiler.
+ */
+type CompilerLocation = {
+	first_line: number;
+	first_column: number;
+	last_line?: number;
+	last_column?: number;
+};
+
+type CompilerError = Error & {
+	location?: CompilerLocation;
+};
+
+const CONTEXT_LINES = 2;
+
+/**
+ * A CoffeeScript or CSON syntax error, pointing at the offending position in the original file. Line and column are
+ * one-based, the message includes a code frame so that build logs are readable on their own.
+ */
+export class CoffeeScriptError extends Error {
+	override name = 'CoffeeScriptError';
+	readonly file: string;
+	readonly line: number;
+	readonly column: number;
+	readonly reason: string;
+	readonly codeFrame: string;
+
+	constructor(reason: string, file: string, source: string, location: CompilerLocation, options?: ErrorOptions) {
+		const codeFrame = createCodeFrame(source, location);
+
+		super(`${file}:${location.first_line + 1}:${location.first_column + 1}: ${reason}\n\n${codeFrame}`, options);
+
+		this.file = file;
+		this.line = location.first_line + 1;
+		this.column = location.first_column + 1;
+		this.reason = reason;
+		this.codeFrame = codeFrame;
+	}
+}
+
+function createCodeFrame(source: string, location: CompilerLocation): string {
+	const lines = source.split(/\r?\n/);
+	const { first_line, first_column } = location;
+	const lastColumn =
+		location.last_line === undefined || location.last_line === first_line
+			? (location.last_column ?? first_column)
+			: (lines[first_line]?.length ?? first_column + 1) - 1;
+
+	const start = Math.max(first_line - CONTEXT_LINES, 0);
+	const end = Math.min(first_line + 1, lines.length);
+	const gutterWidth = String(end).length;
+
+	const frame = lines.slice(start, end).map((text, index) => {
+		const lineNumber = start + index + 1;
+		const marker = lineNumber === first_line + 1 ? '>' : ' ';
+
+		return `${marker} ${String(lineNumber).padStart(gutterWidth)} | ${text}`;
+	});
+
+	const underline = '^'.repeat(Math.max(lastColumn - first_column + 1, 1));
+	frame.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(first_column)}${underline}`);
+
+	return frame.join('\n');
+}
+
+function parseLocation(error: CompilerError): CompilerLocation | undefined {
+	if (error.location) {
+		return error.location;
+	}
+
+	// cson-parser reports invalid (but well-formed) values as "Syntax error on line 2, column 4: Unexpected Call"
+	const match = error.message.match(/^Syntax error on line (\d+), column (\d+): /);
+
+	if (!match) {
+		return undefined;
+	}
+
+	return {
+		first_line: Number(match[1]) - 1,
+		first_column: Number(match[2]) - 1,
+	};
+}
+
+/**
+ * Turns a syntax error thrown by the compiler or by the CSON parser into a `CoffeeScriptError`. Other errors (e.g. a
+ * missing file) are returned as they are. The version of a custom compiler, if given, is added to the reason.
+ */
+export function createCompileError(error: unknown, file: string, source: string, compilerVersion?: string): unknown {
+	if (!(error instanceof Error)) {
+		return error;
+	}
+
+	const location = parseLocation(error);
+
+	if (!location) {
+		return error;
+	}
+
+	const reason = error.message.replace(/^Syntax error on line \d+, column \d+: /, '');
+
+	return new CoffeeScriptError(
+		compilerVersion ? `${reason} (CoffeeScript ${compilerVersion})` : reason,
+		file,
+		source,
+		location,
+		{ cause: error },
+	);
+}
+
+/**
+ * A CSON file whose contents don't match its schema, listing every violation by its property path.
+ */
+export class SchemaValidationError extends Error {
+	override name = 'SchemaValidationError';
+	readonly file: string;
+	readonly issues: SchemaIssue[];
+
+	constructor(file: string, issues: SchemaIssue[]) {
+		super(
+			`${file} does not match its schema:\n${issues.map(({ path, message }) => `  ${path}: ${message}`).join('\n')}`,
+		);
+
+		this.file = file;
+		this.issues = issues;
+	}
+}
+
+/**
+ * A CoffeeScript file with problems reported as errors by the `lint` option, listing every one of them.
+ */
+export class LintError extends Error {
+	override name = 'LintError';
+	readonly file: string;
+	readonly diagnostics: LintDiagnostic[];
+
+	constructor(file: string, diagnostics: LintDiagnostic[]) {
+		super(
+			`${file} has lint errors:\n${diagnostics.map(({ rule, message, line, column }) => `  ${line}:${column}: ${message} (${rule})`).join('\n')}`,
+		);
+
+		this.file = file;
+		this.diagnostics = diagnostics;
+	}
+}
+
+/**
+ * Invalid plugin options, e.g. a misspelled key in a config file.
+ */
+export class ConfigError extends Error {
+	override name = 'ConfigError';
+	readonly source: string;
+	readonly keys: string[];
+
+	constructor(message: string, source: string, keys: string[]) {
+		super(message);
+
+		this.source = source;
+		this.keys = keys;
+	}
+}
+
+/**
+ * Whether an error is caused by the contents of a file, rather than e.g. by the file missing.
+ */
+export function isCompileError(error: unknown): error is CoffeeScriptError | SchemaValidationError | LintError {
+	return error instanceof CoffeeScriptError || error instanceof SchemaValidationError || error instanceof LintError;
+}
+
+const EXPORT_PATTERNS = [
+	/^\s*export\s+(default)\b/gm,
+	/^\s*export\s+class\s+([A-Za-z_$][\w$]*)/gm,
+	/^\s*export\s+([A-Za-z_$][\w$]*)\s*=/gm,
+];
+
+/**
+ * Guesses the names a CoffeeScript module exports from its source, which may not compile.
+ */
+function findExportNames(source: string): string[] {
+	const names = EXPORT_PATTERNS.flatMap((pattern) => [...source.matchAll(pattern)].map((match) => match[1] as string));
+
+	for (const [, specifiers = ''] of source.matchAll(/^\s*export\s*\{([^}]*)\}/gm)) {
+		names.push(
+			...specifiers.split(',').map(
+				(specifier) =>
+					specifier
+						.trim()
+						.split(/\s+as\s+/)
+						.pop() as string,
+			),
+		);
+	}
+
+	return [...new Set(names.filter(Boolean))];
+}
+
+/**
+ * Creates a module that throws the error when it is imported, in place of a file that failed to compile. The module
+ * declares the exports found in the source, so that importing them doesn't fail before the error is thrown.
+ */
+export function createErrorModule(
+	error: CoffeeScriptError | SchemaValidationError | LintError,
+	source: string,
+): string {
+	const exportNames = findExportNames(source);
+	const namedExports = exportNames.filter((name) => name !== 'default');
+
+	return [
+		`const error = new Error(${JSON.stringify(error.message)});`,
+		`Object.assign(error, ${JSON.stringify({ ...error })});`,
+		'throw error;',
+		namedExports.length > 0 ? `export let ${namedExports.join(', ')};` : 'export {};',
+		exportNames.includes('default') || exportNames.length === 0 ? 'export default undefined;' : '',
+	].join('\n');
+}
@@ -0,0 +1,17 @@
+import { relative, resolve, sep } from 'node:path';
+
+/**
+ * Tests a file path against a glob, which may be absolute or relative to the working directory. A pattern without
+ * glob characters matches the file itself, or everything inside the directory of that name.
+ */
+export function matchesGlob(pattern: string, path: string, cwd: string = process.cwd()): boolean {
+	if (!/[*?[\]{}!]/.test(pattern)) {
+		const target = resolve(cwd, pattern);
+
+		return path === target || path.startsWith(`${target}${sep}`);
+	}
+
+	const glob = new Bun.Glob(pattern);
+
+	return glob.match(path) || glob.match(relative(cwd, path));
+}
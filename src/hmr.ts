@@ -0,0 +1,115 @@
+import { type AstNode, getType, parseNodes } from './ast.ts';
+import { SUBSCRIBERS_KEY } from './hot.ts';
+
+const HOT_ACCEPT = 'if (import.meta.hot) {\n\timport.meta.hot.accept();\n}\n';
+
+const DECLARATION_TYPES = [
+	'Assign',
+	'Class',
+	'ExportAllDeclaration',
+	'ExportDefaultDeclaration',
+	'ExportNamedDeclaration',
+	'ImportDeclaration',
+];
+
+const SIDE_EFFECT_OPERATORS = ['++', '--', 'delete', 'await', 'yield'];
+
+/**
+ * Whether evaluating a node can affect anything outside of the module. Function bodies aren't searched, since they
+ * only run when called.
+ */
+function hasSideEffects(node: AstNode): boolean {
+	const type = getType(node) ?? '';
+
+	if (type === 'Code') {
+		return false;
+	}
+
+	if (
+		type.endsWith('Call') ||
+		type === 'Throw' ||
+		(type === 'Op' && SIDE_EFFECT_OPERATORS.includes(node.originalOperator ?? '')) ||
+		(type === 'Assign' && node.context !== 'object' && (node.variable?.properties?.length ?? 0) > 0)
+	) {
+		return true;
+	}
+
+	let found = false;
+
+	node.eachChild((child) => {
+		found ||= hasSideEffects(child);
+	});
+
+	return found;
+}
+
+/**
+ * Whether a CoffeeScript module can be replaced by evaluating its new version, i.e. it has exports and its top-level
+ * code only declares things, without calls or assignments to properties. Anything else, e.g. an entry point rendering
+ * a page or a module registering event listeners, could run twice.
+ */
+export function isSelfContained(source: string, literate = false): boolean {
+	let expressions: AstNode[];
+
+	try {
+		expressions = parseNodes(source, literate).body?.expressions ?? [];
+	} catch {
+		return false;
+	}
+
+	return (
+		expressions.some((expression) => getType(expression)?.startsWith('Export')) &&
+		expressions.every(
+			(expression) => DECLARATION_TYPES.includes(getType(expression) ?? '') && !hasSideEffects(expression),
+		)
+	);
+}
+
+/**
+ * Makes a compiled CoffeeScript module accept hot updates. The handler is appended, so that the source map still
+ * matches.
+ */
+export function acceptHotUpdates(js: string): string {
+	return `${js}${js.endsWith('\n') ? '' : '\n'}${HOT_ACCEPT}`;
+}
+
+/**
+ * Creates a module exporting CSON data like Bun's `object` loader, which keeps the exported object across hot updates
+ * and replaces its contents in place, so that code holding on to it sees the new data. Subscribers registered with
+ * `subscribe` are then notified. Data that isn't an object or an array can't be replaced in place, so the module
+ * doesn't accept updates and the dev server falls back to reloading its importers.
+ */
+export function createHotCsonModule(value: unknown): string {
+	const json = JSON.stringify(value);
+
+	if (typeof value !== 'object' || value === null) {
+		return `export default ${json};\n`;
+	}
+
+	const names = Array.isArray(value) ? [] : Object.keys(value).filter((key) => key !== 'default');
+
+	return [
+		`const value = ${json};`,
+		'let data = import.meta.hot?.data.cson ?? value;',
+		'if (data !== value && Array.isArray(data) === Array.isArray(value)) {',
+		'\tif (Array.isArray(data)) {',
+		'\t\tdata.splice(0, data.length, ...value);',
+		'\t} else {',
+		'\t\tfor (const key of Object.keys(data)) delete data[key];',
+		'\t\tObject.assign(data, value);',
+		'\t}',
+		`\tfor (const callback of globalThis[Symbol.for(${JSON.stringify(SUBSCRIBERS_KEY)})]?.get(data) ?? []) callback(data);`,
+		'} else {',
+		'\tdata = value;',
+		'}',
+		'if (import.meta.hot) {',
+		'\timport.meta.hot.data.cson = data;',
+		'\timport.meta.hot.accept();',
+		'}',
+		'export default data;',
+		...names.map((name, index) => `const export$${index} = value[${JSON.stringify(name)}];`),
+		names.length > 0
+			? `export { ${names.map((name, index) => `export$${index} as ${JSON.stringify(name)}`).join(', ')} };`
+			: '',
+	].join('\n');
+}
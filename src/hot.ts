@@ -0,0 +1,28 @@
+/**
+ * Global registry of the callbacks subscribed to CSON modules, which the modules look up when they are updated.
+ */
+export const SUBSCRIBERS_KEY = 'bun-plugin-coffeescript.subscribers';
+
+type Subscribers = WeakMap<object, Set<(data: never) => void>>;
+
+/**
+ * Calls the callback whenever the data of a CSON module is replaced by a hot update, with the plugin's `hmr` option.
+ * The module's default export keeps its identity, its contents are replaced in place. Returns a function removing the
+ * callback.
+ */
+export function subscribe<T extends object>(data: T, callback: (data: T) => void): () => void {
+	const registry = globalThis as { [key: symbol]: Subscribers | undefined };
+	const key = Symbol.for(SUBSCRIBERS_KEY);
+
+	registry[key] ??= new WeakMap();
+
+	const subscribers = registry[key];
+	const callbacks = subscribers.get(data) ?? new Set();
+
+	subscribers.set(data, callbacks);
+	callbacks.add(callback);
+
+	return () => {
+		callbacks.delete(callback);
+	};
+}
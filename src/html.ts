@@ -0,0 +1,99 @@
+import { basename } from 'node:path';
+import { CoffeeScriptError } from './errors.ts';
+
+/**
+ * An inline `<script type="text/coffeescript">` block, with the zero-based position of its first line in the HTML file.
+ */
+export type CoffeeScriptBlock = {
+	source: string;
+	line: number;
+	column: number;
+};
+
+const SCRIPT_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const TYPE_PATTERN = /\stype\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+const SRC_PATTERN = /\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+const COFFEESCRIPT_SRC = /\.(coffee|litcoffee|coffee\.md|cjsx)([?#].*)?$/;
+
+export const INLINE_QUERY = '?coffee-inline=';
+export const INLINE_PATTERN = /\?coffee-inline=(\d+)$/;
+
+function getAttribute(attributes: string, pattern: RegExp): string | undefined {
+	const match = attributes.match(pattern);
+
+	return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function isCoffeeScriptType(attributes: string): boolean {
+	return getAttribute(attributes, TYPE_PATTERN)?.trim().toLowerCase() === 'text/coffeescript';
+}
+
+export function getPosition(html: string, offset: number): { line: number; column: number } {
+	const lines = html.slice(0, offset).split('\n');
+
+	return { line: lines.length - 1, column: lines[lines.length - 1]?.length ?? 0 };
+}
+
+/**
+ * Finds the inline CoffeeScript blocks in an HTML document, in document order.
+ */
+export function findCoffeeScriptBlocks(html: string): CoffeeScriptBlock[] {
+	return [...html.matchAll(SCRIPT_PATTERN)]
+		.filter(([, attributes = '']) => isCoffeeScriptType(attributes) && !getAttribute(attributes, SRC_PATTERN))
+		.map((match) => {
+			const [tag, attributes = '', contents = ''] = match;
+			const { line, column } = getPosition(html, match.index + tag.indexOf('>', attributes.length) + 1);
+
+			return { source: contents, line, column };
+		});
+}
+
+/**
+ * Whether an HTML document has inline CoffeeScript blocks or scripts loading a CoffeeScript file.
+ */
+export function containsCoffeeScript(html: string): boolean {
+	return [...html.matchAll(SCRIPT_PATTERN)].some(
+		([, attributes = '']) =>
+			isCoffeeScriptType(attributes) || COFFEESCRIPT_SRC.test(getAttribute(attributes, SRC_PATTERN) ?? ''),
+	);
+}
+
+/**
+ * Rewrites the CoffeeScript in an HTML document into module scripts that Bun's HTML bundler picks up. Scripts loading
+ * a CoffeeScript file become module scripts, inline blocks are replaced by a module script importing the block from
+ * the document itself, e.g. `./index.html?coffee-inline=0`.
+ */
+export function rewriteHtml(path: string, html: string): string {
+	let index = 0;
+
+	return html.replace(SCRIPT_PATTERN, (tag, attributes: string) => {
+		const src = getAttribute(attributes, SRC_PATTERN);
+
+		if (src && COFFEESCRIPT_SRC.test(src)) {
+			return tag.replace(/^<script\b[^>]*>/i, `<script${attributes.replace(TYPE_PATTERN, '')} type="module">`);
+		}
+
+		if (!src && isCoffeeScriptType(attributes)) {
+			return `<script${attributes.replace(TYPE_PATTERN, '')} type="module" src="./${basename(path)}${INLINE_QUERY}${index++}"></script>`;
+		}
+
+		return tag;
+	});
+}
+
+/**
+ * Moves an error in an inline block to its position in the HTML document, with a code frame of the surrounding markup.
+ */
+export function relocateError(
+	error: CoffeeScriptError,
+	path: string,
+	html: string,
+	block: CoffeeScriptBlock,
+): CoffeeScriptError {
+	const location = {
+		first_line: block.line + error.line - 1,
+		first_column: (error.line === 1 ? block.column : 0) + error.column - 1,
+	};
+
+	return new CoffeeScriptError(error.reason, path, html, location, { cause: error });
+}
@@ -1,48 +1,170 @@
-import type { BunPlugin, OnLoadResultObject, OnLoadResultSourceCode } from 'bun';
-import { compile, type Options } from 'coffeescript';
-import CSON from 'cson-parser';
+import { dirname, resolve } from 'node:path';
+import type { BunPlugin, OnLoadArgs } from 'bun';
+import { createCache } from './cache.ts';
+import { resolveOptions } from './config.ts';
+import { createErrorModule, isCompileError } from './errors.ts';
+import { INLINE_PATTERN } from './html.ts';
+import {
+	type LoaderContext,
+	loadCoffeeScript,
+	loadCoffeeScriptTemplate,
+	loadCson,
+	loadHtml,
+	loadInlineCoffeeScript,
+	loadTemplateHost,
+	loadVirtualModule,
+	VIRTUAL_NAMESPACE,
+} from './loaders.ts';
+import { isMacro, loadMacro, MACRO_PATTERN, MACRO_QUERY } from './macro.ts';
+import type { PluginOptions } from './options.ts';
+import { DEFAULT_EXTENSIONS, resolveImport } from './resolve.ts';
+import { installStackTraceHook } from './sourcemap.ts';
+import { HOST_PATTERN, TEMPLATE_PATTERN } from './templates.ts';
+import { createWorkerPool } from './workers.ts';
 
-function omit<T extends object, K extends keyof T>(obj: T, keys: K[]): Omit<T, K> {
-	return Object.fromEntries(Object.entries(obj).filter(([key]) => !keys.includes(key as K))) as Omit<T, K>;
-}
+export type { CompileResult, CompileSourceOptions, CsonResult, ParseCsonOptions, Pipeline } from './api.ts';
+export { compileFile, compileSource, createPipeline, parseCson, parseCsonFile } from './api.ts';
+export type { CacheOptions } from './cache.ts';
+export { clearCache } from './cache.ts';
+export { findConfig, loadConfig } from './config.ts';
+export type { CsonOptions } from './cson.ts';
+export type { DeclarationOptions, DeclarationResult } from './declarations.ts';
+export { createCsonDeclaration, writeCsonDeclarations } from './declarations.ts';
+export { CoffeeScriptError, ConfigError, LintError, SchemaValidationError } from './errors.ts';
+export type { CoffeeScriptDeclarationResult } from './jsdoc.ts';
+export { writeCoffeeScriptDeclarations } from './jsdoc.ts';
+export type { LintDiagnostic, LintOptions, LintRule, LintSeverity } from './lint.ts';
+export type { CompilerOptions, PluginOptions } from './options.ts';
+export type { OverrideOptions } from './overrides.ts';
+export type { ResolveOptions } from './resolve.ts';
+export type { JsonSchema, SchemaIssue, SchemaOptions } from './schema.ts';
+export { validateSchema } from './schema.ts';
+export type { SourceMapMode } from './sourcemap.ts';
+export type { TransformContext, TransformHooks, TransformResult } from './transform.ts';
+export type { ModuleMode } from './wrapper.ts';
 
-async function loadCson(path: string): Promise<OnLoadResultObject> {
-	const fileContents = await Bun.file(path).text();
+function load(
+	{ path, namespace }: Pick<OnLoadArgs, 'path' | 'namespace'>,
+	options: PluginOptions,
+	context: LoaderContext,
+) {
+	if (namespace === VIRTUAL_NAMESPACE) {
+		return loadVirtualModule(path, options, context);
+	}
 
-	const exports = CSON.parse(fileContents);
+	if (HOST_PATTERN.test(path)) {
+		return loadTemplateHost(path);
+	}
 
-	return {
-		exports,
-		loader: 'object',
-	};
-}
+	if (path.endsWith('.cson')) {
+		return loadCson(path, options, context);
+	}
 
-async function loadCoffeeScript(path: string, options: Options): Promise<OnLoadResultSourceCode> {
-	const fileContents = await Bun.file(path).text();
-	const compilerOptions = omit(options, ['inlineMap']);
+	if (/\.html?$/.test(path)) {
+		return loadHtml(path);
+	}
 
-	const contents = compile(fileContents, {
-		filename: path,
-		...compilerOptions,
-	});
+	if (INLINE_PATTERN.test(path)) {
+		return loadInlineCoffeeScript(path, options, context);
+	}
 
-	return {
-		contents,
-		loader: 'js',
-	};
+	if (TEMPLATE_PATTERN.test(path)) {
+		return loadCoffeeScriptTemplate(path, options, context);
+	}
+
+	if (isMacro(path)) {
+		return loadMacro(path, options, context);
+	}
+
+	return loadCoffeeScript(path, options, context);
 }
 
-export default function Plugin(options: Options = {}): BunPlugin {
+export default function Plugin(pluginOptions: PluginOptions = {}): BunPlugin {
+	const options = resolveOptions(pluginOptions);
+	const context: LoaderContext = {
+		cache: options.cache ? createCache(options.cache) : undefined,
+		pool: options.workers === undefined ? undefined : createWorkerPool(options.workers),
+	};
+
+	if (options.stackTraces) {
+		installStackTraceHook();
+	}
+
 	return {
 		name: 'bun-plugin-coffeescript',
 		setup(builder) {
-			builder.onLoad({ filter: /\.(coffee|cson|litcoffee)$/ }, async ({ path }) => {
-				if (path.endsWith('.cson')) {
-					return loadCson(path);
+			// Runtime plugins have no end of the build, their workers simply don't keep the process alive
+			if (context.pool && typeof builder.onEnd === 'function') {
+				builder.onEnd(() => context.pool?.terminate());
+			}
+
+			const extensions = options.resolve === false ? [] : (options.resolve?.extensions ?? DEFAULT_EXTENSIONS);
+
+			builder.onResolve({ filter: /^(\.\.?(\/|$)|\/)/, namespace: 'file' }, ({ path, importer, resolveDir }) => {
+				// Inline blocks of HTML files and templates are resolved even with `resolve: false`, since Bun doesn't know
+				// about them
+				if (INLINE_PATTERN.test(path) || TEMPLATE_PATTERN.test(path)) {
+					return { path: resolve(resolveDir || dirname(importer), path) };
 				}
 
-				return loadCoffeeScript(path, options);
+				// Macro imports keep their query, resolving the module itself like any other import
+				if (MACRO_PATTERN.test(path)) {
+					const modulePath = path.replace(MACRO_PATTERN, '');
+					const resolvedPath =
+						extensions.length > 0 ? resolveImport(modulePath, importer, resolveDir, extensions) : undefined;
+
+					return { path: `${resolvedPath ?? resolve(resolveDir || dirname(importer), modulePath)}${MACRO_QUERY}` };
+				}
+
+				const resolvedPath = extensions.length > 0 ? resolveImport(path, importer, resolveDir, extensions) : undefined;
+
+				return resolvedPath ? { path: resolvedPath } : undefined;
 			});
+
+			const onLoad = async (args: OnLoadArgs) => {
+				try {
+					return await load(args, options, context);
+				} catch (error) {
+					if (options.errorMode !== 'module' || !isCompileError(error)) {
+						throw error;
+					}
+
+					console.warn(error.message);
+
+					return {
+						contents: createErrorModule(
+							error,
+							await Bun.file(args.path)
+								.text()
+								.catch(() => ''),
+						),
+						loader: 'js' as const,
+					};
+				}
+			};
+
+			builder.onLoad(
+				{ filter: /\.(coffee|cson|cjsx|litcoffee|coffee\.md)$|\?coffee-(inline|template)=\d+$|\?macro$/ },
+				onLoad,
+			);
+
+			// Runtime plugins can't return the `html` loader, so HTML files are only rewritten by the bundler, which has a
+			// build config
+			if (builder.config) {
+				builder.onLoad({ filter: /\.html?$/ }, onLoad);
+			}
+
+			if (options.modules) {
+				builder.onResolve({ filter: /^coffee:/ }, ({ path }) => ({
+					path: path.slice(`${VIRTUAL_NAMESPACE}:`.length),
+					namespace: VIRTUAL_NAMESPACE,
+				}));
+				builder.onLoad({ filter: /.*/, namespace: VIRTUAL_NAMESPACE }, onLoad);
+			}
+
+			if (options.templates) {
+				builder.onLoad({ filter: HOST_PATTERN }, onLoad);
+			}
 		},
 	};
 }
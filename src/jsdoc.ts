@@ -0,0 +1,152 @@
+import { basename, resolve } from 'node:path';
+import type * as TypeScript from 'typescript';
+import {
+	assertDeclarationsUpToDate,
+	type DeclarationOptions,
+	type DeclarationResult,
+	writeDeclaration,
+} from './declarations.ts';
+import { compileCoffeeScriptSource } from './loaders.ts';
+import type { PluginOptions } from './options.ts';
+
+export type CoffeeScriptDeclarationResult = DeclarationResult & {
+	/**
+	 * Exports whose type is, or whose parameters are, `any` for lack of JSDoc annotations.
+	 */
+	unannotated: string[];
+};
+
+async function importTypeScript(): Promise<typeof TypeScript> {
+	try {
+		return await import('typescript');
+	} catch {
+		throw new Error('Emitting declarations for CoffeeScript requires the typescript package, install it first');
+	}
+}
+
+/**
+ * Creates a compiler host serving the compiled CoffeeScript as `foo.coffee.js`, so that TypeScript resolves imports
+ * like `./foo.coffee` to it and emits `foo.coffee.d.ts`.
+ */
+function createHost(
+	ts: typeof TypeScript,
+	compilerOptions: TypeScript.CompilerOptions,
+	files: Map<string, string>,
+	declarations: Map<string, string>,
+): TypeScript.CompilerHost {
+	const host = ts.createCompilerHost(compilerOptions);
+	const { fileExists, getSourceFile, readFile } = host;
+
+	return {
+		...host,
+		fileExists: (fileName) => files.has(fileName) || fileExists(fileName),
+		readFile: (fileName) => files.get(fileName) ?? readFile(fileName),
+		getSourceFile: (fileName, languageVersion, ...args) => {
+			const contents = files.get(fileName);
+
+			return contents === undefined
+				? getSourceFile(fileName, languageVersion, ...args)
+				: ts.createSourceFile(fileName, contents, languageVersion, true, ts.ScriptKind.JS);
+		},
+		writeFile: (fileName, contents) => {
+			declarations.set(fileName, contents);
+		},
+	};
+}
+
+function isAny(ts: typeof TypeScript, type: TypeScript.Type): boolean {
+	return (type.flags & ts.TypeFlags.Any) !== 0;
+}
+
+/**
+ * Lists the exports of a module whose types TypeScript couldn't infer, i.e. values typed as `any` and functions or
+ * classes with `any` parameters.
+ */
+function findUnannotatedExports(
+	ts: typeof TypeScript,
+	checker: TypeScript.TypeChecker,
+	sourceFile: TypeScript.SourceFile,
+): string[] {
+	const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+
+	if (!moduleSymbol) {
+		return [];
+	}
+
+	return checker
+		.getExportsOfModule(moduleSymbol)
+		.filter((symbol) => {
+			const type = checker.getTypeOfSymbolAtLocation(symbol, sourceFile);
+			const signatures = [...type.getCallSignatures(), ...type.getConstructSignatures()];
+
+			return (
+				isAny(ts, type) ||
+				signatures.some((signature) =>
+					signature.getParameters().some((parameter) => isAny(ts, checker.getTypeOfSymbol(parameter))),
+				)
+			);
+		})
+		.map((symbol) => symbol.getName());
+}
+
+/**
+ * Writes a `.d.ts` file for each CoffeeScript module, e.g. `math.coffee.d.ts` for `math.coffee`, typed after the JSDoc
+ * annotations in its block comments. The modules are compiled with the plugin options, then passed through TypeScript's
+ * declaration emitter as JavaScript. In check mode, nothing is written and an error is thrown if any declaration is
+ * missing or out of date.
+ */
+export async function writeCoffeeScriptDeclarations(
+	paths: string[],
+	options: DeclarationOptions = {},
+	pluginOptions: PluginOptions = {},
+): Promise<CoffeeScriptDeclarationResult[]> {
+	const ts = await importTypeScript();
+	const files = new Map<string, string>();
+
+	for (const path of paths.map((path) => resolve(path))) {
+		const { js } = await compileCoffeeScriptSource(await Bun.file(path).text(), path, {
+			...pluginOptions,
+			sourcemap: 'none',
+		});
+
+		files.set(`${path}.js`, js);
+	}
+
+	const compilerOptions: TypeScript.CompilerOptions = {
+		allowJs: true,
+		checkJs: true,
+		declaration: true,
+		emitDeclarationOnly: true,
+		module: ts.ModuleKind.ESNext,
+		moduleResolution: ts.ModuleResolutionKind.Bundler,
+		skipLibCheck: true,
+		target: ts.ScriptTarget.ESNext,
+	};
+	const declarations = new Map<string, string>();
+	const program = ts.createProgram(
+		[...files.keys()],
+		compilerOptions,
+		createHost(ts, compilerOptions, files, declarations),
+	);
+	const checker = program.getTypeChecker();
+
+	program.emit();
+
+	const results = await Promise.all(
+		paths.map(async (file) => {
+			const path = resolve(file);
+			const sourceFile = program.getSourceFile(`${path}.js`);
+			const declaration = declarations.get(`${path}.d.ts`) ?? 'export {};\n';
+			const header = `// Generated by bun-plugin-coffeescript from ${basename(path)}, do not edit.\n`;
+
+			return {
+				...(await writeDeclaration(file, header + declaration, options)),
+				unannotated: sourceFile ? findUnannotatedExports(ts, checker, sourceFile) : [],
+			};
+		}),
+	);
+
+	assertDeclarationsUpToDate(results);
+
+	return results;
+}
@@ -0,0 +1,16 @@
+import * as CoffeeScript from 'coffeescript';
+
+type Token = [tag: string, value: unknown];
+
+// `tokens` is part of the compiler's public API, but missing from its type definitions
+const { tokens } = CoffeeScript as unknown as {
+	tokens(code: string, options?: { literate?: boolean }): Token[];
+};
+
+/**
+ * Checks whether a CoffeeScript source contains JSX, which the compiler passes through as it is. Uses the token
+ * stream rather than the compiled output, so that comparisons like `a < b` or JSX in strings aren't mistaken for tags.
+ */
+export function containsJsx(source: string, literate = false): boolean {
+	return tokens(source, { literate }).some(([tag]) => tag === 'JSX_TAG');
+}
@@ -0,0 +1,346 @@
+import { type AstNode, getType, parseNodes } from './ast.ts';
+import { LintError } from './errors.ts';
+
+export const lintRules = ['shadow', 'unused-assignment', 'loose-equality', 'constructor-return'] as const;
+
+export const lintSeverities = ['off', 'warn', 'error'] as const;
+
+export type LintRule = (typeof lintRules)[number];
+
+export type LintSeverity = (typeof lintSeverities)[number];
+
+/**
+ * The severity of each rule, rules left out are reported as warnings.
+ */
+export type LintOptions = Partial<Record<LintRule, LintSeverity>>;
+
+export type LintDiagnostic = {
+	rule: LintRule;
+	severity: Exclude<LintSeverity, 'off'>;
+	message: string;
+	line: number;
+	column: number;
+};
+
+type Scope = {
+	parent?: Scope;
+	/**
+	 * Variables first assigned in this scope, by the node declaring them.
+	 */
+	variables: Map<string, AstNode>;
+	params: Set<string>;
+};
+
+type Reference = {
+	name: string;
+	scope: Scope;
+};
+
+type LintState = {
+	report(rule: LintRule, node: AstNode, message: string): void;
+	scopes: Scope[];
+	references: Reference[];
+	/**
+	 * Functions called right away with `do`, which receive the variables named by their parameters.
+	 */
+	doFunctions: Set<AstNode>;
+};
+
+const DEFAULT_RULES: Record<LintRule, LintSeverity> = {
+	shadow: 'warn',
+	'unused-assignment': 'warn',
+	'loose-equality': 'warn',
+	'constructor-return': 'warn',
+};
+
+const DIRECTIVE_PATTERN = /#\s*lint-(disable-next-line|disable-line|disable|enable)\b(.*)$/;
+
+/**
+ * Expressions without side effects, which are pointless as the last expression of a constructor.
+ */
+const VALUE_TYPES = ['Value', 'Code', 'Obj', 'Arr'];
+
+function createScope(parent?: Scope): Scope {
+	return { parent, variables: new Map(), params: new Set() };
+}
+
+function isDeclared(scope: Scope | undefined, name: string): boolean {
+	for (let current = scope; current; current = current.parent) {
+		if (current.variables.has(name) || current.params.has(name)) {
+			return true;
+		}
+	}
+
+	return false;
+}
+
+/**
+ * Collects the variables assigned by an assignment target or a parameter, including destructured ones.
+ */
+function collectTargets(node: AstNode | undefined, targets: AstNode[] = []): AstNode[] {
+	const type = getType(node);
+
+	if (!node || type === 'ThisLiteral' || (type === 'Value' && (node.properties?.length ?? 0) > 0)) {
+		return targets;
+	}
+
+	if (type === 'IdentifierLiteral') {
+		targets.push(node);
+	} else if (type === 'Assign') {
+		// In `{ a: b } = c` the target is `b`, in `{ a = 1 } = c` it's `a`
+		collectTargets(node.context === 'object' ? (node.value as AstNode) : node.variable, targets);
+	} else {
+		node.eachChild((child) => collectTargets(child, targets));
+	}
+
+	return targets;
+}
+
+/**
+ * Whether an assignment target is a variable or a destructuring pattern, rather than e.g. a property.
+ */
+function isVariableTarget(node: AstNode | undefined): boolean {
+	if (getType(node) === 'IdentifierLiteral') {
+		return true;
+	}
+
+	return (
+		getType(node) === 'Value' &&
+		node?.properties?.length === 0 &&
+		['IdentifierLiteral', 'Obj', 'Arr'].includes(getType(node.base) ?? '')
+	);
+}
+
+function findConstructor(classNode: AstNode): AstNode | undefined {
+	for (const expression of classNode.body?.expressions ?? []) {
+		for (const property of expression.base?.properties ?? []) {
+			if (property.context === 'object' && property.variable?.base?.value === 'constructor') {
+				return getType(property.value as AstNode) === 'Code' ? (property.value as AstNode) : undefined;
+			}
+		}
+	}
+
+	return undefined;
+}
+
+function lintFunction(node: AstNode, scope: Scope, state: LintState): void {
+	const functionScope = createScope(scope);
+
+	state.scopes.push(functionScope);
+
+	for (const param of node.params ?? []) {
+		// A parameter of `do` without a default is passed the variable of the same name, so it uses rather than shadows it
+		const passed = state.doFunctions.has(node) && !param.value;
+
+		for (const target of collectTargets(param.name)) {
+			const name = String(target.value);
+
+			if (passed) {
+				state.references.push({ name, scope });
+			} else if (isDeclared(scope, name)) {
+				state.report('shadow', target, `parameter "${name}" shadows a variable of an enclosing scope`);
+			}
+
+			functionScope.params.add(name);
+		}
+
+		if (param.value) {
+			lintNode(param.value as AstNode, functionScope, state);
+		}
+	}
+
+	if (node.body) {
+		lintNode(node.body, functionScope, state);
+	}
+}
+
+function lintNode(node: AstNode, scope: Scope, state: LintState): void {
+	const type = getType(node);
+
+	if (type === 'Code') {
+		lintFunction(node, scope, state);
+		return;
+	}
+
+	if (type === 'Assign' && node.context === undefined && isVariableTarget(node.variable)) {
+		for (const target of collectTargets(node.variable)) {
+			const name = String(target.value);
+
+			if (!isDeclared(scope, name)) {
+				scope.variables.set(name, target);
+			}
+		}
+
+		lintNode(node.value as AstNode, scope, state);
+		return;
+	}
+
+	if (type === 'IdentifierLiteral') {
+		state.references.push({ name: String(node.value), scope });
+	} else if (type === 'Op' && node.operator === 'do') {
+		// `do (x) ->` and `do f = (x) ->` both call the function
+		const func = getType(node.first) === 'Assign' ? (node.first?.value as AstNode) : node.first;
+
+		if (getType(func) === 'Code') {
+			state.doFunctions.add(func as AstNode);
+		}
+	} else if (type === 'Op' && (node.originalOperator === '==' || node.originalOperator === '!=')) {
+		const replacement = node.originalOperator === '==' ? 'is' : 'isnt';
+
+		state.report(
+			'loose-equality',
+			node,
+			`"${node.originalOperator}" compiles to a strict comparison, write "${replacement}" to make that explicit`,
+		);
+	} else if (type === 'Class') {
+		const expressions = findConstructor(node)?.body?.expressions ?? [];
+		const lastExpression = expressions[expressions.length - 1];
+
+		if (
+			lastExpression &&
+			VALUE_TYPES.includes(getType(lastExpression) ?? '') &&
+			getType(lastExpression.base) !== 'Call'
+		) {
+			state.report(
+				'constructor-return',
+				lastExpression,
+				'the last expression of a constructor is not returned, constructors always return the instance',
+			);
+		}
+	}
+
+	node.eachChild((child) => lintNode(child, scope, state));
+
+	// Exported variables are used by the importing modules
+	if (type === 'ExportNamedDeclaration') {
+		node.eachChild((child) => {
+			for (const target of getType(child) === 'Assign' ? collectTargets(child.variable) : []) {
+				state.references.push({ name: String(target.value), scope });
+			}
+		});
+	}
+}
+
+/**
+ * Finds the rules disabled on each line by `# lint-disable` and `# lint-enable` comments, which apply until the end of
+ * the file, and by `# lint-disable-line` and `# lint-disable-next-line` comments. Without a list of rules, every rule
+ * is disabled.
+ */
+function findDisabledRules(source: string): Set<string>[] {
+	const disabledRules: Set<string>[] = [];
+	let current = new Set<string>();
+	let nextLine: string[] = [];
+
+	for (const line of source.split(/\r?\n/)) {
+		const match = line.match(DIRECTIVE_PATTERN);
+		const directive = match?.[1];
+		const rules = (match?.[2] ?? '').split(/[\s,]+/).filter(Boolean);
+		const ruleList = rules.length > 0 ? rules : ['*'];
+
+		if (directive === 'disable') {
+			current = new Set([...current, ...ruleList]);
+		} else if (directive === 'enable') {
+			current = new Set(rules.length > 0 ? [...current].filter((rule) => !rules.includes(rule)) : []);
+		}
+
+		disabledRules.push(new Set([...current, ...nextLine, ...(directive === 'disable-line' ? ruleList : [])]));
+		nextLine = directive === 'disable-next-line' ? ruleList : [];
+	}
+
+	return disabledRules;
+}
+
+/**
+ * Lints a CoffeeScript file with the given rules, returning the problems found in source order. Files the bundled
+ * compiler can't parse, e.g. for a legacy compiler, aren't linted.
+ */
+export function lintCoffeeScript(source: string, options: true | LintOptions, literate = false): LintDiagnostic[] {
+	const rules = { ...DEFAULT_RULES, ...(options === true ? {} : options) };
+	let root: AstNode;
+
+	try {
+		root = parseNodes(source, literate);
+	} catch {
+		return [];
+	}
+
+	const disabledRules = findDisabledRules(source);
+	const diagnostics: LintDiagnostic[] = [];
+	const rootScope = createScope();
+	const state: LintState = {
+		scopes: [rootScope],
+		references: [],
+		doFunctions: new Set(),
+		report(rule, node, message) {
+			const severity = rules[rule];
+			const line = node.locationData?.first_line ?? 0;
+			const disabled = disabledRules[line];
+
+			if (severity !== 'off' && !disabled?.has(rule) && !disabled?.has('*')) {
+				diagnostics.push({
+					rule,
+					severity,
+					message,
+					line: line + 1,
+					column: (node.locationData?.first_column ?? 0) + 1,
+				});
+			}
+		},
+	};
+
+	lintNode(root, rootScope, state);
+
+	const used = new Set<AstNode>();
+
+	for (const { name, scope } of state.references) {
+		for (let current: Scope | undefined = scope; current; current = current.parent) {
+			const declaration = current.variables.get(name);
+
+			if (declaration) {
+				used.add(declaration);
+			}
+
+			if (declaration || current.params.has(name)) {
+				break;
+			}
+		}
+	}
+
+	for (const scope of state.scopes) {
+		for (const [name, declaration] of scope.variables) {
+			if (!used.has(declaration) && !name.startsWith('_')) {
+				state.report('unused-assignment', declaration, `"${name}" is assigned but never used`);
+			}
+		}
+	}
+
+	return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+export function formatLintDiagnostic(path: string, { rule, message, line, column }: LintDiagnostic): string {
+	return `${path}:${line}:${column}: ${message} (${rule})`;
+}
+
+/**
+ * Logs the warnings among the problems found in a file, or adds them to `warnings` if given, and throws a `LintError` if
+ * there are errors.
+ */
+export function reportLintDiagnostics(path: string, diagnostics: LintDiagnostic[], warnings?: LintDiagnostic[]): void {
+	for (const diagnostic of diagnostics) {
+		if (diagnostic.severity !== 'warn') {
+			continue;
+		}
+
+		if (warnings) {
+			warnings.push(diagnostic);
+		} else {
+			console.warn(formatLintDiagnostic(path, diagnostic));
+		}
+	}
+
+	const errors = diagnostics.filter(({ severity }) => severity === 'error');
+
+	if (errors.length > 0) {
+		throw new LintError(path, errors);
+	}
+}
@@ -0,0 +1,409 @@
+import type { OnLoadResultObject, OnLoadResultSourceCode } from 'bun';
+import type { RawSourceMap } from 'coffeescript';
+import type { CacheEntry, CompilationCache } from './cache.ts';
+import { type CoffeeScriptCompiler, getCompilerVersion, loadCompiler } from './compiler.ts';
+import { type ExpandedCson, expandCson, parseCson } from './cson.ts';
+import { assertDeclarationsUpToDate, writeCsonDeclaration } from './declarations.ts';
+import { CoffeeScriptError, createCompileError } from './errors.ts';
+import { acceptHotUpdates, createHotCsonModule, isSelfContained } from './hmr.ts';
+import { containsCoffeeScript, findCoffeeScriptBlocks, INLINE_PATTERN, relocateError, rewriteHtml } from './html.ts';
+import { containsJsx } from './jsx.ts';
+import { type LintDiagnostic, lintCoffeeScript, reportLintDiagnostics } from './lint.ts';
+import { rewriteMacroImports } from './macro.ts';
+import { type CompilerOptions, type PluginOptions, pluginOptionKeys } from './options.ts';
+import { resolveFileOptions } from './overrides.ts';
+import { validateCson } from './schema.ts';
+import { attachSourceMap, createSourceMap, registerSourceMap, type SourceMapMode } from './sourcemap.ts';
+import { findCoffeeScriptTemplates, HOST_PATTERN, rewriteTemplates, TEMPLATE_PATTERN } from './templates.ts';
+import { transformAfter, transformBefore } from './transform.ts';
+import type { WorkerPool } from './workers.ts';
+import { isBare } from './wrapper.ts';
+
+/**
+ * State shared by all files a plugin instance compiles.
+ */
+export type LoaderContext = {
+	cache?: CompilationCache;
+	pool?: WorkerPool;
+	/**
+	 * The files each loaded CSON file includes, for the watch mode of `coffee-bun` to recompile it when they change. Bun
+	 * has no way for plugins to add files to its own watchers.
+	 */
+	dependencies?: Map<string, string[]>;
+	/**
+	 * Collects the lint warnings of the loaded files, rather than logging them.
+	 */
+	diagnostics?: LintDiagnostic[];
+};
+
+/**
+ * Namespace of the virtual modules registered with the `modules` option.
+ */
+export const VIRTUAL_NAMESPACE = 'coffee';
+
+export type CompiledCoffeeScript = {
+	js: string;
+	sourceMap?: RawSourceMap;
+	loader: 'js' | 'jsx';
+};
+
+/**
+ * A CoffeeScript module as the plugin loads it, with its source map attached or referenced as configured.
+ */
+export type EmittedCoffeeScript = {
+	contents: string;
+	sourceMap?: RawSourceMap;
+	loader: 'js' | 'jsx';
+};
+
+function omit<T extends object, K extends keyof T>(obj: T, keys: K[]): Omit<T, K> {
+	return Object.fromEntries(Object.entries(obj).filter(([key]) => !keys.includes(key as K))) as Omit<T, K>;
+}
+
+function isLiterate(path: string): boolean {
+	return /\.(litcoffee|coffee\.md)$/.test(path);
+}
+
+/**
+ * Parses CSON, passing its source through the `before` hook and its data, as JSON, through the `after` hook. The CSON
+ * extensions, if enabled, are applied in between.
+ */
+async function transformCson(path: string, source: string, options: PluginOptions): Promise<ExpandedCson> {
+	const context = { path, format: 'cson', options } as const;
+	const value = parseCson(path, await transformBefore(source, context));
+	const expanded = options.cson ? await expandCson(path, value, options.cson) : { value, dependencies: [] };
+
+	if (!options.transform?.after) {
+		return expanded;
+	}
+
+	return {
+		value: JSON.parse((await transformAfter(JSON.stringify(expanded.value), context)).code),
+		dependencies: expanded.dependencies,
+	};
+}
+
+/**
+ * Parses the CSON source of a file into its data, validating it against its schemas and writing its declaration if
+ * enabled.
+ */
+export async function parseCsonSource(
+	source: string,
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<unknown> {
+	const { value, dependencies } = await transformCson(path, source, options);
+
+	context.dependencies?.set(path, dependencies);
+
+	await validateCson(path, value, options.schemas ?? []);
+
+	if (options.declarations) {
+		const declarationOptions = options.declarations === true ? {} : options.declarations;
+
+		assertDeclarationsUpToDate([await writeCsonDeclaration(path, value, declarationOptions)]);
+	}
+
+	return value;
+}
+
+export async function readCsonFile(
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<unknown> {
+	return parseCsonSource(await Bun.file(path).text(), path, options, context);
+}
+
+export async function loadCson(
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<OnLoadResultObject | OnLoadResultSourceCode> {
+	const exports = await readCsonFile(path, options, context);
+
+	if (options.hmr) {
+		return {
+			contents: createHotCsonModule(exports),
+			loader: 'js',
+		};
+	}
+
+	return {
+		exports: exports as Record<string, unknown>,
+		loader: 'object',
+	};
+}
+
+export function compileCoffeeScript(
+	fileContents: string,
+	path: string,
+	compilerOptions: CompilerOptions,
+	sourcemap: SourceMapMode,
+	compiler: CoffeeScriptCompiler = loadCompiler(),
+): CacheEntry {
+	// JSX is detected with the bundled compiler's lexer, which would reject source only a custom compiler accepts
+	const jsx = compiler === loadCompiler() && containsJsx(fileContents, compilerOptions.literate);
+
+	if (sourcemap === 'none') {
+		return {
+			js: compiler.compile(fileContents, compilerOptions) as string,
+			jsx,
+		};
+	}
+
+	const result = compiler.compile(fileContents, {
+		...compilerOptions,
+		sourceMap: true,
+	}) as Exclude<ReturnType<CoffeeScriptCompiler['compile']>, string>;
+
+	return {
+		js: result.js,
+		sourceMap: createSourceMap(result, path, fileContents),
+		jsx,
+	};
+}
+
+/**
+ * Compiles CoffeeScript with the options that apply to the file, going through the transform hooks, the cache and the
+ * worker pool if there are any. The source map, if any, is returned as it is rather than attached to the code.
+ */
+export async function compileCoffeeScriptSource(
+	originalContents: string,
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<CompiledCoffeeScript> {
+	const { cache, pool } = context;
+	const { sourcemap = 'none' } = options;
+	const fileOptions = resolveFileOptions(path, originalContents, options, options.overrides);
+	const transformContext = { path, format: 'coffeescript', options: fileOptions } as const;
+	const fileContents = await transformBefore(originalContents, transformContext);
+	const literate = isLiterate(path);
+	// The checks that inspect the source parse it with the bundled compiler, so they are skipped for custom compilers
+	const customCompiler = fileOptions.compiler !== undefined;
+	const moduleMode =
+		fileOptions.moduleMode === 'auto' && customCompiler ? 'script' : (fileOptions.moduleMode ?? 'script');
+	const compilerOptions: CompilerOptions = {
+		filename: path,
+		...omit(fileOptions, pluginOptionKeys),
+		bare: fileOptions.bare ?? isBare(path, fileContents, moduleMode, literate),
+		literate,
+	};
+
+	const compiler = loadCompiler(fileOptions.compiler);
+	const compilerVersion = getCompilerVersion(compiler);
+	// Output of a compiler without a version isn't cached, as it could be mistaken for the output of another compiler
+	const cacheKey =
+		compilerVersion === undefined
+			? undefined
+			: cache?.key(fileContents, { ...compilerOptions, sourcemap }, compilerVersion);
+	let output = cacheKey ? await cache?.get(cacheKey) : undefined;
+
+	if (!output) {
+		try {
+			// A compiler passed as an object can't be posted to the workers, so it always runs on the main thread
+			output =
+				pool && typeof fileOptions.compiler !== 'object'
+					? await pool.compile({ fileContents, path, compilerOptions, sourcemap, compiler: fileOptions.compiler })
+					: compileCoffeeScript(fileContents, path, compilerOptions, sourcemap, compiler);
+		} catch (error) {
+			throw createCompileError(error, path, fileContents, fileOptions.compiler && compilerVersion);
+		}
+
+		if (cacheKey) {
+			await cache?.set(cacheKey, output);
+		}
+	}
+
+	// Linted after compiling, so that syntax errors are reported by the compiler
+	if (fileOptions.lint && !customCompiler) {
+		reportLintDiagnostics(path, lintCoffeeScript(fileContents, fileOptions.lint, literate), context.diagnostics);
+	}
+
+	const { code, sourceMap } = await transformAfter(output.js, {
+		...transformContext,
+		sourceMap: sourcemap === 'none' ? undefined : output.sourceMap,
+	});
+
+	return {
+		js: code,
+		sourceMap,
+		loader: (fileOptions.jsx ?? (output.jsx || path.endsWith('.cjsx'))) ? 'jsx' : 'js',
+	};
+}
+
+/**
+ * Compiles CoffeeScript into the module the plugin loads, with the source map attached as configured. With `hot`, the
+ * module accepts hot updates.
+ */
+async function emitCoffeeScript(
+	fileContents: string,
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+	hot = false,
+): Promise<EmittedCoffeeScript> {
+	const { sourcemap = 'none' } = options;
+	const compiled = await compileCoffeeScriptSource(fileContents, path, options, context);
+	const { sourceMap, loader } = compiled;
+	const js = hot ? acceptHotUpdates(rewriteMacroImports(compiled.js)) : rewriteMacroImports(compiled.js);
+
+	if (sourcemap === 'none' || !sourceMap) {
+		return {
+			contents: js,
+			loader,
+		};
+	}
+
+	if (options.stackTraces) {
+		registerSourceMap(path, sourceMap);
+	}
+
+	return {
+		// External source maps are kept in memory rather than written into the source tree
+		contents: sourcemap === 'inline' ? await attachSourceMap(js, sourceMap, path, sourcemap) : js,
+		sourceMap,
+		loader,
+	};
+}
+
+async function transformCoffeeScript(
+	fileContents: string,
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<OnLoadResultSourceCode> {
+	const { contents, loader } = await emitCoffeeScript(fileContents, path, options, context);
+
+	return { contents, loader };
+}
+
+/**
+ * Compiles the source of a CoffeeScript file like the plugin does when the file is imported.
+ */
+export function emitCoffeeScriptFile(
+	source: string,
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<EmittedCoffeeScript> {
+	const { compiler } = resolveFileOptions(path, source, options, options.overrides);
+
+	return emitCoffeeScript(
+		source,
+		path,
+		options,
+		context,
+		Boolean(options.hmr) && compiler === undefined && isSelfContained(source, isLiterate(path)),
+	);
+}
+
+export async function loadCoffeeScript(
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<OnLoadResultSourceCode> {
+	const { contents, loader } = await emitCoffeeScriptFile(await Bun.file(path).text(), path, options, context);
+
+	return { contents, loader };
+}
+
+/**
+ * Loads an HTML file with its CoffeeScript scripts rewritten into module scripts. Files without CoffeeScript are left
+ * to Bun.
+ */
+export async function loadHtml(path: string): Promise<OnLoadResultSourceCode | undefined> {
+	const html = await Bun.file(path).text();
+
+	if (!containsCoffeeScript(html)) {
+		return undefined;
+	}
+
+	return {
+		contents: rewriteHtml(path, html),
+		loader: 'html',
+	};
+}
+
+/**
+ * Loads an inline CoffeeScript block of an HTML file, e.g. `index.html?coffee-inline=0` for its first block.
+ */
+export async function loadInlineCoffeeScript(
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<OnLoadResultSourceCode> {
+	const htmlPath = path.replace(INLINE_PATTERN, '');
+	const index = Number(path.match(INLINE_PATTERN)?.[1]);
+	const html = await Bun.file(htmlPath).text();
+	const block = findCoffeeScriptBlocks(html)[index];
+
+	if (!block) {
+		throw new Error(`${htmlPath} has no inline CoffeeScript block #${index}`);
+	}
+
+	try {
+		return await transformCoffeeScript(block.source, path, options, context);
+	} catch (error) {
+		throw error instanceof CoffeeScriptError ? relocateError(error, htmlPath, html, block) : error;
+	}
+}
+
+/**
+ * Loads a TypeScript or JavaScript file with its CoffeeScript templates replaced by imports of the compiled templates.
+ */
+export async function loadTemplateHost(path: string): Promise<OnLoadResultSourceCode> {
+	const source = await Bun.file(path).text();
+	const extension = path.match(HOST_PATTERN)?.[0] ?? '.js';
+
+	return {
+		contents: path.includes('/node_modules/') ? source : rewriteTemplates(path, source),
+		loader: extension.endsWith('x') ? (extension.includes('t') ? 'tsx' : 'jsx') : extension.includes('t') ? 'ts' : 'js',
+	};
+}
+
+/**
+ * Loads a CoffeeScript template of a TypeScript or JavaScript file, e.g. `app.ts?coffee-template=0` for its first
+ * template.
+ */
+export async function loadCoffeeScriptTemplate(
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<OnLoadResultSourceCode> {
+	const hostPath = path.replace(TEMPLATE_PATTERN, '');
+	const index = Number(path.match(TEMPLATE_PATTERN)?.[1]);
+	const source = await Bun.file(hostPath).text();
+	const template = findCoffeeScriptTemplates(hostPath, source)[index];
+
+	if (!template) {
+		throw new Error(`${hostPath} has no CoffeeScript template #${index}`);
+	}
+
+	try {
+		return await transformCoffeeScript(template.source, path, options, context);
+	} catch (error) {
+		throw error instanceof CoffeeScriptError ? relocateError(error, hostPath, source, template) : error;
+	}
+}
+
+/**
+ * Loads a virtual module registered with the `modules` option, e.g. `coffee:math` for the module named `math`.
+ */
+export async function loadVirtualModule(
+	name: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<OnLoadResultSourceCode> {
+	const source = options.modules?.[name];
+
+	if (source === undefined) {
+		throw new Error(
+			`There is no CoffeeScript module "${VIRTUAL_NAMESPACE}:${name}", register it with the modules option`,
+		);
+	}
+
+	return transformCoffeeScript(source, `${VIRTUAL_NAMESPACE}:${name}`, options, context);
+}
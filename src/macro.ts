@@ -0,0 +1,132 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join } from 'node:path';
+import type { OnLoadResultObject } from 'bun';
+import type { RawSourceMap } from 'coffeescript';
+import { CoffeeScriptError } from './errors.ts';
+import { compileCoffeeScriptSource, type LoaderContext } from './loaders.ts';
+import type { PluginOptions } from './options.ts';
+import { mapSourcePosition } from './sourcemap.ts';
+
+export const MACRO_QUERY = '?macro';
+export const MACRO_PATTERN = /\?macro$/;
+
+const MACRO_FILE_PATTERN = /\.macro\.coffee$/;
+const MACRO_IMPORT_PATTERN = /(\bfrom\s*)(['"])([^'"]+)\2(\s*(?:assert|with)\s*\{\s*type\s*:\s*(['"])macro\5\s*\})/g;
+const IMPORT_PATTERN = /(\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(['"])([^'"]+)\2/g;
+
+/**
+ * Whether a module is evaluated at build time, either by its `.macro.coffee` suffix or because it was imported with
+ * the `macro` import attribute.
+ */
+export function isMacro(path: string): boolean {
+	return MACRO_PATTERN.test(path) || MACRO_FILE_PATTERN.test(path);
+}
+
+/**
+ * Marks imports with the `macro` attribute, e.g. `import { sha } from './git.coffee' assert { type: 'macro' }`, with a
+ * `?macro` query instead, since Bun evaluates such imports itself without going through plugins. The attribute is
+ * replaced by its line breaks so that the lines after it stay in place for the source map.
+ */
+export function rewriteMacroImports(js: string): string {
+	return js.replace(
+		MACRO_IMPORT_PATTERN,
+		(_statement, prefix: string, quote: string, specifier: string, attribute: string) =>
+			`${prefix}${quote}${specifier}${MACRO_QUERY}${quote}${attribute.replace(/[^\n]/g, '')}`,
+	);
+}
+
+/**
+ * Points the imports of a compiled macro at absolute paths, so that it can be evaluated from a temporary file.
+ */
+function resolveImports(js: string, path: string): string {
+	return js.replace(IMPORT_PATTERN, (statement, prefix: string, quote: string, specifier: string) => {
+		try {
+			return `${prefix}${quote}${Bun.resolveSync(specifier, dirname(path))}${quote}`;
+		} catch {
+			return statement;
+		}
+	});
+}
+
+function isSerialisable(value: unknown): boolean {
+	if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+		return true;
+	}
+
+	if (Array.isArray(value)) {
+		return value.every(isSerialisable);
+	}
+
+	return (
+		typeof value === 'object' &&
+		Object.getPrototypeOf(value) === Object.prototype &&
+		Object.values(value).every(isSerialisable)
+	);
+}
+
+/**
+ * Turns an error thrown while evaluating a macro into a `CoffeeScriptError` pointing at the line of the macro that
+ * threw it, as found in its stack trace. Errors thrown elsewhere, e.g. in an imported module, are returned as they are.
+ */
+function createMacroError(
+	error: unknown,
+	path: string,
+	source: string,
+	tempFile: string,
+	sourceMap: RawSourceMap | undefined,
+): unknown {
+	const frame = error instanceof Error ? error.stack?.split('\n').find((line) => line.includes(tempFile)) : undefined;
+	const match = frame?.match(/:(\d+):(\d+)\)?$/);
+	const position = match && sourceMap ? mapSourcePosition(sourceMap, Number(match[1]), Number(match[2])) : undefined;
+
+	if (!(error instanceof Error) || !position) {
+		return error;
+	}
+
+	return new CoffeeScriptError(
+		`${error.name} in macro: ${error.message}`,
+		path,
+		source,
+		{ first_line: position[0] - 1, first_column: position[1] - 1 },
+		{ cause: error },
+	);
+}
+
+/**
+ * Evaluates a CoffeeScript macro and returns its exports as data, awaiting promises. Every export must be serialisable
+ * as JSON, e.g. the output of a git command or a generated lookup table.
+ */
+export async function loadMacro(
+	path: string,
+	options: PluginOptions,
+	context: LoaderContext = {},
+): Promise<OnLoadResultObject> {
+	const file = path.replace(MACRO_PATTERN, '');
+	const source = await Bun.file(file).text();
+	const { js, sourceMap } = await compileCoffeeScriptSource(source, file, { ...options, sourcemap: 'inline' }, context);
+	// A directory of its own keeps macros with the same name, compiled at the same time, from overwriting each other
+	const tempDir = await mkdtemp(join(tmpdir(), 'coffee-macro-'));
+	const tempFile = join(tempDir, `${basename(file)}.mjs`);
+	const exports: Record<string, unknown> = {};
+
+	await Bun.write(tempFile, resolveImports(js, file));
+
+	try {
+		for (const [name, value] of Object.entries(await import(tempFile))) {
+			exports[name] = await value;
+		}
+	} catch (error) {
+		throw createMacroError(error, file, source, tempFile, sourceMap);
+	} finally {
+		await rm(tempDir, { recursive: true, force: true });
+	}
+
+	for (const [name, value] of Object.entries(exports)) {
+		if (!isSerialisable(value)) {
+			throw new Error(`${file}: the macro export "${name}" is not serialisable, only JSON values can be inlined`);
+		}
+	}
+
+	return { exports, loader: 'object' };
+}
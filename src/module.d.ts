@@ -14,3 +14,21 @@ declare module '*.litcoffee' {
 	const content: any;
 	export default content;
 }
+
+declare module '*.cjsx' {
+	// biome-ignore lint/suspicious/noExplicitAny: Module declaration needs any type
+	const content: any;
+	export default content;
+}
+
+declare module '*.coffee.md' {
+	// biome-ignore lint/suspicious/noExplicitAny: Module declaration needs any type
+	const content: any;
+	export default content;
+}
+
+declare module 'coffee:*' {
+	// biome-ignore lint/suspicious/noExplicitAny: Module declaration needs any type
+	const content: any;
+	export default content;
+}
@@ -0,0 +1,173 @@
+import type { Options } from 'coffeescript';
+import type { CacheOptions } from './cache.ts';
+import type { CoffeeScriptCompiler } from './compiler.ts';
+import type { CsonOptions } from './cson.ts';
+import type { DeclarationOptions } from './declarations.ts';
+import type { LintOptions } from './lint.ts';
+import type { OverrideOptions } from './overrides.ts';
+import type { ResolveOptions } from './resolve.ts';
+import type { SchemaOptions } from './schema.ts';
+import type { SourceMapMode } from './sourcemap.ts';
+import type { TransformHooks } from './transform.ts';
+import type { ModuleMode } from './wrapper.ts';
+
+/**
+ * `ast` is left out, since the plugin needs the compiler to return code.
+ */
+export type CompilerOptions = Omit<Options, 'ast'> & {
+	literate?: boolean;
+};
+
+export type PluginOptions = CompilerOptions & {
+	/**
+	 * The CoffeeScript compiler to use instead of the bundled `coffeescript` module, either as a module name resolved
+	 * from the working directory, e.g. `'coffee-script'` for 1.x, or as an object with a `compile` function. Can also be
+	 * set per glob with `overrides`. Checks that parse the source with the bundled compiler, i.e. JSX detection,
+	 * `moduleMode: 'auto'`, `lint` and `hmr`, are skipped for its files.
+	 */
+	compiler?: CoffeeScriptCompiler | string;
+	/**
+	 * Emit a source map for compiled CoffeeScript, either inline or kept in memory for stack traces and the API. The
+	 * `coffee-bun` CLI writes external source maps next to the compiled files.
+	 * @default 'none'
+	 */
+	sourcemap?: SourceMapMode;
+	/**
+	 * Report CoffeeScript positions in stack traces thrown from files compiled with a source map, by replacing
+	 * `Error.prepareStackTrace` for the whole process.
+	 * @default false
+	 */
+	stackTraces?: boolean;
+	/**
+	 * Keep compiled CoffeeScript in an on-disk cache, so that unchanged files skip the compiler on subsequent builds.
+	 */
+	cache?: CacheOptions;
+	/**
+	 * Resolve extensionless imports and directory imports to CoffeeScript and CSON files. Set to `false` to opt out.
+	 */
+	resolve?: ResolveOptions | false;
+	/**
+	 * Write a `.d.ts` file next to each imported CSON file, typing its contents. In check mode, the build fails when a
+	 * declaration is out of date instead.
+	 */
+	declarations?: boolean | DeclarationOptions;
+	/**
+	 * JSON Schemas to validate CSON files against, by glob. A CSON file can also reference its schema with a `$schema`
+	 * key, relative to the file.
+	 */
+	schemas?: SchemaOptions[];
+	/**
+	 * Opt-in extensions to CSON: `$include` keys merging other files, and `${NAME:-default}` interpolation of the given
+	 * environment variables. By default, CSON files are parsed as they are.
+	 */
+	cson?: CsonOptions;
+	/**
+	 * Compiler options for files matching a glob or directory, merged in order on top of the base options. A single
+	 * file can further override them with a header pragma, e.g. `# @coffee bare: true`.
+	 */
+	overrides?: OverrideOptions[];
+	/**
+	 * Path to a config file to read options from. By default, a `coffee.config.cson`, a `coffee.config.coffee` or the
+	 * `coffeescript` key of a `package.json` is searched for, starting in the working directory. Options passed to the
+	 * plugin take precedence over the config file. Set to `false` to skip the config file.
+	 */
+	config?: string | false;
+	/**
+	 * Whether to compile files without the `(function() { ... }).call(this)` wrapper, so that Bun can tree-shake and
+	 * hoist them. `'auto'` keeps the wrapper only for files whose top-level code depends on it, e.g. uses `this`, with a
+	 * warning. The `bare` compiler option takes precedence.
+	 * @default 'script'
+	 */
+	moduleMode?: ModuleMode;
+	/**
+	 * Lint CoffeeScript files for shadowed variables, unused assignments, `==` instead of `is` and values at the end of
+	 * constructors. Warnings are logged, while rules set to `'error'` fail the build. Pass the severity of each rule to
+	 * configure them, rules left out are warnings.
+	 * @default false
+	 */
+	lint?: boolean | LintOptions;
+	/**
+	 * Compile CoffeeScript with Bun's `jsx` loader. By default, this is detected from the source, and `.cjsx` files always
+	 * use it. Set to `true` or `false` to force it on or off.
+	 */
+	jsx?: boolean;
+	/**
+	 * Take part in hot module replacement in Bun's dev server. CoffeeScript modules whose top-level code only declares
+	 * things accept updates, and CSON modules replace their data in place. Other modules reload their importers.
+	 * @default false
+	 */
+	hmr?: boolean;
+	/**
+	 * Compile CoffeeScript in a pool of workers rather than on the main thread, either with the given number of workers
+	 * or with one less than the number of CPU cores. The pool shuts down at the end of each build.
+	 */
+	workers?: number | 'auto';
+	/**
+	 * How to handle syntax, schema and lint errors. By default, they fail the build. In `'module'` mode, they are logged as a
+	 * warning and the file is replaced by a module throwing the error when it is imported, which keeps dev servers and
+	 * watch mode running.
+	 * @default 'fail'
+	 */
+	errorMode?: 'fail' | 'module';
+	/**
+	 * Hooks transforming the source of CoffeeScript and CSON files before compiling, e.g. to strip debug blocks, and the
+	 * compiled code after, e.g. to add a license banner.
+	 */
+	transform?: TransformHooks;
+	/**
+	 * CoffeeScript sources of virtual modules by name, which are imported with the `coffee:` prefix, e.g. `coffee:math`.
+	 */
+	modules?: Record<string, string>;
+	/**
+	 * Compile `` coffee`...` `` tagged templates in TypeScript and JavaScript files at build time, replacing each by the
+	 * namespace of the compiled module.
+	 * @default false
+	 */
+	templates?: boolean;
+};
+
+/**
+ * Options handled by the plugin itself, which must not reach the compiler. `inlineMap` and `sourceMap` are replaced by
+ * the `sourcemap` option.
+ */
+export const pluginOptionKeys = [
+	'cache',
+	'compiler',
+	'config',
+	'cson',
+	'declarations',
+	'errorMode',
+	'hmr',
+	'inlineMap',
+	'jsx',
+	'lint',
+	'moduleMode',
+	'modules',
+	'overrides',
+	'resolve',
+	'schemas',
+	'sourceMap',
+	'sourcemap',
+	'stackTraces',
+	'templates',
+	'transform',
+	'workers',
+] as const satisfies (keyof PluginOptions)[];
+
+/**
+ * Options understood by the CoffeeScript compiler.
+ */
+export const compilerOptionKeys = [
+	'bare',
+	'filename',
+	'header',
+	'inlineMap',
+	'literate',
+	'sourceMap',
+	'transpile',
+] as const satisfies (keyof CompilerOptions)[];
+
+/**
+ * Plugin options that can be set per file by an override, besides the compiler options.
+ */
+export const overrideOptionKeys = ['compiler', 'jsx'] as const satisfies (keyof PluginOptions)[];
@@ -0,0 +1,94 @@
+import CSON from 'cson-parser';
+import { CoffeeScriptError } from './errors.ts';
+import { matchesGlob } from './glob.ts';
+import type { CompilerOptions, PluginOptions } from './options.ts';
+
+export type OverrideOptions = {
+	/**
+	 * Glob or directory matching the files the options apply to, relative to the working directory.
+	 */
+	include: string;
+	/**
+	 * Compiler options merged on top of the base options, optionally with the compiler itself and `jsx`.
+	 */
+	options: CompilerOptions & Pick<PluginOptions, 'compiler' | 'jsx'>;
+};
+
+const PRAGMA_PATTERN = /^\s*#\s*@coffee\s+(.*)$/;
+
+/**
+ * Options a pragma can set, which change how a single file compiles. Options such as `ast` or `sourceMap` change what
+ * the compiler returns, and plugin options such as `compiler` or `cache` apply to whole builds.
+ */
+const PRAGMA_OPTION_KEYS: string[] = ['bare', 'header', 'transpile', 'jsx'];
+
+type PragmaOptions = CompilerOptions & Pick<PluginOptions, 'jsx'>;
+
+/**
+ * Reads compiler options from `# @coffee` pragmas in the leading comments of a file, e.g. `# @coffee bare: true`.
+ * The options are written as CSON, several pragmas are merged in order. Unknown options fail with the position of
+ * the pragma in the file.
+ */
+export function parsePragmas(path: string, source: string): PragmaOptions {
+	const pragmaOptions: PragmaOptions = {};
+
+	for (const [index, line] of source.split(/\r?\n/).entries()) {
+		const match = line.match(PRAGMA_PATTERN);
+
+		if (!match?.[1]) {
+			if (line.trim() === '' || line.trimStart().startsWith('#')) {
+				continue;
+			}
+
+			break;
+		}
+
+		let value: unknown;
+
+		try {
+			value = CSON.parse(match[1]);
+		} catch (error) {
+			value = error;
+		}
+
+		if (!value || typeof value !== 'object' || Array.isArray(value) || value instanceof Error) {
+			const location = { first_line: index, first_column: line.indexOf('@coffee') };
+
+			throw new CoffeeScriptError('invalid @coffee pragma, expected options like "bare: true"', path, source, location);
+		}
+
+		const invalidKey = Object.keys(value).find((key) => !PRAGMA_OPTION_KEYS.includes(key));
+
+		if (invalidKey) {
+			const location = {
+				first_line: index,
+				first_column: Math.max(line.indexOf(invalidKey, line.indexOf('@coffee')), 0),
+			};
+
+			throw new CoffeeScriptError(
+				`unknown @coffee pragma option "${invalidKey}", pragmas can set ${PRAGMA_OPTION_KEYS.join(', ')}`,
+				path,
+				source,
+				location,
+			);
+		}
+
+		Object.assign(pragmaOptions, value);
+	}
+
+	return pragmaOptions;
+}
+
+/**
+ * Merges the options for a single file: the base options, then every matching override in order, then the pragmas.
+ */
+export function resolveFileOptions<T extends CompilerOptions>(
+	path: string,
+	source: string,
+	options: T,
+	overrides: OverrideOptions[] = [],
+): T {
+	const overrideOptions = overrides.filter(({ include }) => matchesGlob(include, path)).map(({ options }) => options);
+
+	return Object.assign({}, options, ...overrideOptions, parsePragmas(path, source));
+}
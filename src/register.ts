@@ -0,0 +1,3 @@
+import Plugin from './index.ts';
+
+Bun.plugin(Plugin());
@@ -0,0 +1,85 @@
+import { type Stats, statSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+
+export type ResolveOptions = {
+	/**
+	 * File extensions to try, in order, for extensionless imports and `index` files of directory imports.
+	 * @default ['.coffee', '.litcoffee', '.coffee.md', '.cjsx', '.cson']
+	 */
+	extensions?: string[];
+};
+
+export const DEFAULT_EXTENSIONS = ['.coffee', '.litcoffee', '.coffee.md', '.cjsx', '.cson'];
+
+/**
+ * Modules written in CoffeeScript or CSON, whose imports prefer CoffeeScript and CSON files over Bun's own resolution.
+ */
+const COFFEE_IMPORTER_PATTERN = /\.(coffee|cson|cjsx|litcoffee|coffee\.md)$|\?coffee-(inline|template)=\d+$|\?macro$/;
+
+function statPath(path: string): Stats | undefined {
+	return statSync(path, { throwIfNoEntry: false });
+}
+
+function pickFile(specifier: string, importer: string, base: string, extensions: string[]): string | undefined {
+	const matches = extensions.map((extension) => `${base}${extension}`).filter((path) => statPath(path)?.isFile());
+
+	if (matches.length > 1) {
+		throw new Error(
+			`Ambiguous import "${specifier}" in ${importer}, it matches ${matches.map((match) => basename(match)).join(', ')}. Add the file extension to the import to pick one.`,
+		);
+	}
+
+	return matches[0];
+}
+
+/**
+ * Whether Bun resolves an import by itself to a file that isn't one of the given extensions, e.g. to a TypeScript file
+ * or to a directory with an `index.js` file.
+ */
+function isResolvedByBun(specifier: string, directory: string, extensions: string[]): boolean {
+	try {
+		const path = Bun.resolveSync(specifier, directory);
+
+		return !extensions.some((extension) => path.endsWith(extension));
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Resolves an extensionless import specifier to a CoffeeScript or CSON file, or to the `index` file of a directory.
+ * Imports of other modules are only resolved when Bun can't resolve them, so that e.g. `helper.ts` wins over
+ * `helper.coffee` in TypeScript. Returns `undefined` when there is nothing to resolve, leaving the import to Bun. Runs
+ * synchronously, since runtime plugins don't support asynchronous `onResolve` callbacks.
+ */
+export function resolveImport(
+	specifier: string,
+	importer: string,
+	resolveDir: string,
+	extensions: string[],
+): string | undefined {
+	if (extensions.some((extension) => specifier.endsWith(extension))) {
+		return undefined;
+	}
+
+	const directory = resolveDir || dirname(importer);
+
+	if (!COFFEE_IMPORTER_PATTERN.test(importer) && isResolvedByBun(specifier, directory, extensions)) {
+		return undefined;
+	}
+
+	const base = resolve(directory, specifier);
+	const stats = statPath(base);
+
+	if (stats?.isFile()) {
+		return undefined;
+	}
+
+	const file = pickFile(specifier, importer, base, extensions);
+
+	if (file || !stats?.isDirectory()) {
+		return file;
+	}
+
+	return pickFile(specifier, importer, join(base, 'index'), extensions);
+}
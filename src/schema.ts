@@ -0,0 +1,286 @@
+import { dirname, extname, resolve } from 'node:path';
+import { readCson } from './cson.ts';
+import { SchemaValidationError } from './errors.ts';
+import { matchesGlob } from './glob.ts';
+
+/**
+ * The subset of JSON Schema understood by the validator.
+ */
+export type JsonSchema = {
+	$ref?: string;
+	$defs?: Record<string, JsonSchema>;
+	definitions?: Record<string, JsonSchema>;
+	type?: JsonSchemaType | JsonSchemaType[];
+	enum?: unknown[];
+	const?: unknown;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean | JsonSchema;
+	items?: JsonSchema;
+	minItems?: number;
+	maxItems?: number;
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number;
+	exclusiveMaximum?: number;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	allOf?: JsonSchema[];
+	anyOf?: JsonSchema[];
+	oneOf?: JsonSchema[];
+};
+
+export type JsonSchemaType = 'array' | 'boolean' | 'integer' | 'null' | 'number' | 'object' | 'string';
+
+export type SchemaOptions = {
+	/**
+	 * Glob matching the CSON files the schema applies to, relative to the working directory.
+	 */
+	include: string;
+	/**
+	 * The schema, or the path to a JSON or CSON file containing it.
+	 */
+	schema: JsonSchema | string;
+};
+
+export type SchemaIssue = {
+	path: string;
+	message: string;
+};
+
+function getType(value: unknown): JsonSchemaType {
+	if (value === null) {
+		return 'null';
+	}
+
+	if (Array.isArray(value)) {
+		return 'array';
+	}
+
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? 'integer' : 'number';
+	}
+
+	return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+	const actualType = getType(value);
+
+	return actualType === type || (type === 'number' && actualType === 'integer');
+}
+
+function joinPath(path: string, key: string | number): string {
+	if (typeof key === 'number') {
+		return `${path}[${key}]`;
+	}
+
+	const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+
+	return path ? `${path}.${segment}` : segment;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+	if (!ref.startsWith('#')) {
+		throw new Error(`Unsupported schema reference "${ref}", only local references are resolved`);
+	}
+
+	const schema = ref
+		.slice(1)
+		.split('/')
+		.filter(Boolean)
+		.reduce<unknown>(
+			(node, segment) =>
+				(node as Record<string, unknown> | undefined)?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')],
+			root,
+		);
+
+	if (!schema) {
+		throw new Error(`Cannot resolve schema reference "${ref}"`);
+	}
+
+	return schema as JsonSchema;
+}
+
+function validateObject(value: object, schema: JsonSchema, path: string, root: JsonSchema): SchemaIssue[] {
+	const record = value as Record<string, unknown>;
+	const issues: SchemaIssue[] = [];
+
+	for (const key of schema.required ?? []) {
+		if (!(key in record)) {
+			issues.push({ path: joinPath(path, key), message: 'is required' });
+		}
+	}
+
+	for (const [key, member] of Object.entries(record)) {
+		const propertySchema = schema.properties?.[key];
+
+		if (propertySchema) {
+			issues.push(...validateValue(member, propertySchema, joinPath(path, key), root));
+		} else if (schema.additionalProperties === false) {
+			issues.push({ path: joinPath(path, key), message: 'is not an allowed property' });
+		} else if (typeof schema.additionalProperties === 'object') {
+			issues.push(...validateValue(member, schema.additionalProperties, joinPath(path, key), root));
+		}
+	}
+
+	return issues;
+}
+
+function validateArray(value: unknown[], schema: JsonSchema, path: string, root: JsonSchema): SchemaIssue[] {
+	const issues: SchemaIssue[] = [];
+
+	if (schema.minItems !== undefined && value.length < schema.minItems) {
+		issues.push({ path, message: `expected at least ${schema.minItems} items` });
+	}
+
+	if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+		issues.push({ path, message: `expected at most ${schema.maxItems} items` });
+	}
+
+	if (schema.items) {
+		const itemSchema = schema.items;
+
+		issues.push(...value.flatMap((item, index) => validateValue(item, itemSchema, joinPath(path, index), root)));
+	}
+
+	return issues;
+}
+
+function validateNumber(value: number, schema: JsonSchema, path: string): SchemaIssue[] {
+	const checks: [boolean, string][] = [
+		[schema.minimum !== undefined && value < schema.minimum, `expected a number >= ${schema.minimum}`],
+		[schema.maximum !== undefined && value > schema.maximum, `expected a number <= ${schema.maximum}`],
+		[
+			schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum,
+			`expected a number > ${schema.exclusiveMinimum}`,
+		],
+		[
+			schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum,
+			`expected a number < ${schema.exclusiveMaximum}`,
+		],
+	];
+
+	return checks.filter(([failed]) => failed).map(([, message]) => ({ path, message }));
+}
+
+function validateString(value: string, schema: JsonSchema, path: string): SchemaIssue[] {
+	const checks: [boolean, string][] = [
+		[
+			schema.minLength !== undefined && value.length < schema.minLength,
+			`expected at least ${schema.minLength} characters`,
+		],
+		[
+			schema.maxLength !== undefined && value.length > schema.maxLength,
+			`expected at most ${schema.maxLength} characters`,
+		],
+		[
+			schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value),
+			`expected to match ${schema.pattern}`,
+		],
+	];
+
+	return checks.filter(([failed]) => failed).map(([, message]) => ({ path, message }));
+}
+
+function validateCombinators(value: unknown, schema: JsonSchema, path: string, root: JsonSchema): SchemaIssue[] {
+	const issues = (schema.allOf ?? []).flatMap((subschema) => validateValue(value, subschema, path, root));
+
+	if (schema.anyOf && !schema.anyOf.some((subschema) => validateValue(value, subschema, path, root).length === 0)) {
+		issues.push({ path, message: 'expected to match at least one of the allowed schemas' });
+	}
+
+	if (schema.oneOf) {
+		const matches = schema.oneOf.filter((subschema) => validateValue(value, subschema, path, root).length === 0);
+
+		if (matches.length !== 1) {
+			issues.push({ path, message: `expected to match exactly one of the allowed schemas, matched ${matches.length}` });
+		}
+	}
+
+	return issues;
+}
+
+function validateValue(value: unknown, schema: JsonSchema, path: string, root: JsonSchema): SchemaIssue[] {
+	if (schema.$ref) {
+		return validateValue(value, resolveRef(schema.$ref, root), path, root);
+	}
+
+	const types = typeof schema.type === 'string' ? [schema.type] : schema.type;
+
+	if (types && !types.some((type) => matchesType(value, type))) {
+		return [{ path, message: `expected ${types.join(' or ')}, got ${getType(value)}` }];
+	}
+
+	if (schema.const !== undefined && !Bun.deepEquals(value, schema.const)) {
+		return [{ path, message: `expected ${JSON.stringify(schema.const)}` }];
+	}
+
+	if (schema.enum && !schema.enum.some((option) => Bun.deepEquals(value, option))) {
+		return [{ path, message: `expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}` }];
+	}
+
+	const issues = validateCombinators(value, schema, path, root);
+
+	if (Array.isArray(value)) {
+		issues.push(...validateArray(value, schema, path, root));
+	} else if (value !== null && typeof value === 'object') {
+		issues.push(...validateObject(value, schema, path, root));
+	} else if (typeof value === 'number') {
+		issues.push(...validateNumber(value, schema, path));
+	} else if (typeof value === 'string') {
+		issues.push(...validateString(value, schema, path));
+	}
+
+	return issues;
+}
+
+/**
+ * Validates a value against a JSON Schema, returning one issue per violation. Issue paths use property access
+ * notation, e.g. `database.port` or `servers[1].host`.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaIssue[] {
+	return validateValue(value, schema, '', schema).map((issue) => ({ ...issue, path: issue.path || '(root)' }));
+}
+
+async function readSchema(path: string): Promise<JsonSchema> {
+	return (extname(path) === '.cson' ? await readCson(path) : await Bun.file(path).json()) as JsonSchema;
+}
+
+/**
+ * Collects the schemas a CSON file has to satisfy: those whose glob matches its path, and the one referenced by its
+ * `$schema` key. Remote `$schema` URLs are ignored, since validation runs offline.
+ */
+export async function findSchemas(path: string, value: unknown, schemas: SchemaOptions[]): Promise<JsonSchema[]> {
+	const matchingSchemas = await Promise.all(
+		schemas
+			.filter(({ include }) => matchesGlob(include, path))
+			.map(({ schema }) => (typeof schema === 'string' ? readSchema(resolve(schema)) : schema)),
+	);
+
+	const schemaReference = (value as { $schema?: unknown } | null)?.$schema;
+
+	if (typeof schemaReference === 'string' && !/^[a-z][a-z\d+.-]*:\/\//i.test(schemaReference)) {
+		matchingSchemas.push(await readSchema(resolve(dirname(path), schemaReference)));
+	}
+
+	return matchingSchemas;
+}
+
+/**
+ * Validates a parsed CSON file against all of its schemas, throwing a `SchemaValidationError` listing every violation.
+ * The `$schema` key itself is not part of the validated data.
+ */
+export async function validateCson(path: string, value: unknown, schemas: SchemaOptions[]): Promise<void> {
+	const data =
+		value && typeof value === 'object' && !Array.isArray(value) && '$schema' in value
+			? Object.fromEntries(Object.entries(value).filter(([key]) => key !== '$schema'))
+			: value;
+
+	const issues = (await findSchemas(path, value, schemas)).flatMap((schema) => validateSchema(data, schema));
+
+	if (issues.length > 0) {
+		throw new SchemaValidationError(path, issues);
+	}
+}
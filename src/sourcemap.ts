@@ -0,0 +1,252 @@
+import { basename } from 'node:path';
+import type { CodeWithSourceMap, RawSourceMap, SourceLocation } from 'coffeescript';
+
+export type SourceMapMode = 'inline' | 'external' | 'none';
+
+/**
+ * A decoded mapping segment: generated column, original line and original column (all zero-based).
+ */
+type Segment = [number, number, number];
+
+type StackTraceFormatter = (error: Error, frames: NodeJS.CallSite[]) => unknown;
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const sourceMaps = new Map<string, Segment[][]>();
+let stackTraceHookInstalled = false;
+
+/**
+ * Turns the compiler's V3 map into one that points back at the original file and embeds its contents.
+ */
+export function createSourceMap(
+	result: Pick<CodeWithSourceMap, 'v3SourceMap'>,
+	path: string,
+	source: string,
+): RawSourceMap {
+	const sourceMap: RawSourceMap = JSON.parse(result.v3SourceMap);
+
+	return {
+		...sourceMap,
+		file: basename(path),
+		sourceRoot: '',
+		sources: [path],
+		sourcesContent: [source],
+	};
+}
+
+/**
+ * Appends a `sourceMappingURL` comment to the compiled code, writing the map next to the compiled file in external
+ * mode.
+ */
+export async function attachSourceMap(
+	js: string,
+	sourceMap: RawSourceMap,
+	path: string,
+	mode: Exclude<SourceMapMode, 'none'>,
+): Promise<string> {
+	const json = JSON.stringify(sourceMap);
+
+	if (mode === 'external') {
+		await Bun.write(`${path}.map`, json);
+
+		return `${js}\n//# sourceMappingURL=${basename(path)}.map\n`;
+	}
+
+	return `${js}\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${Buffer.from(json).toString('base64')}\n`;
+}
+
+/**
+ * Remembers the source map of a compiled file, so that stack traces thrown from it report CoffeeScript positions once
+ * the stack trace hook is installed.
+ */
+export function registerSourceMap(path: string, sourceMap: RawSourceMap): void {
+	sourceMaps.set(path, decodeMappings(sourceMap.mappings));
+}
+
+/**
+ * Decodes the mappings of a source map into absolute segments per generated line: generated column, then optionally
+ * source index, original line, original column and name index.
+ */
+function decodeSegments(mappings: string): number[][][] {
+	const state = [0, 0, 0, 0, 0];
+
+	return mappings.split(';').map((line) => {
+		state[0] = 0;
+
+		return line
+			.split(',')
+			.filter(Boolean)
+			.map((segment) =>
+				decodeVlq(segment).map((value, index) => {
+					state[index] = (state[index] ?? 0) + value;
+
+					return state[index];
+				}),
+			);
+	});
+}
+
+function encodeSegments(lines: number[][][]): string {
+	const state = [0, 0, 0, 0, 0];
+
+	return lines
+		.map((segments) => {
+			state[0] = 0;
+
+			return segments
+				.map((segment) =>
+					segment
+						.map((value, index) => {
+							const delta = value - (state[index] ?? 0);
+							state[index] = value;
+
+							return encodeVlq(delta);
+						})
+						.join(''),
+				)
+				.join(',');
+		})
+		.join(';');
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+	return decodeSegments(mappings).map((segments) =>
+		segments
+			.filter((segment) => segment.length >= 4)
+			.map(([column, , line, sourceColumn]) => [column, line, sourceColumn] as Segment),
+	);
+}
+
+function decodeVlq(segment: string): number[] {
+	const values: number[] = [];
+	let value = 0;
+	let shift = 0;
+
+	for (const char of segment) {
+		const digit = BASE64_CHARS.indexOf(char);
+
+		value += (digit & 31) << shift;
+
+		if (digit & 32) {
+			shift += 5;
+			continue;
+		}
+
+		values.push(value & 1 ? -(value >> 1) : value >> 1);
+		value = 0;
+		shift = 0;
+	}
+
+	return values;
+}
+
+function encodeVlq(value: number): string {
+	let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+	let encoded = '';
+
+	do {
+		const digit = vlq & 31;
+
+		vlq >>>= 5;
+		encoded += BASE64_CHARS[vlq > 0 ? digit | 32 : digit];
+	} while (vlq > 0);
+
+	return encoded;
+}
+
+/**
+ * Pairs every line of the transformed code with the line of the original code it was kept from, if any. Lines are
+ * matched in order by their contents, so added, removed and changed lines don't shift the lines around them. Blank
+ * lines only match the next original line, to keep them from skipping ahead.
+ */
+function matchLines(original: string[], transformed: string[]): (number | undefined)[] {
+	let cursor = 0;
+
+	return transformed.map((line) => {
+		const index = line.trim() ? original.indexOf(line, cursor) : original[cursor] === line ? cursor : -1;
+
+		if (index === -1) {
+			return undefined;
+		}
+
+		cursor = index + 1;
+
+		return index;
+	});
+}
+
+/**
+ * Adapts a source map to a transformed version of the code it maps, e.g. with a banner prepended. Lines kept as they
+ * were keep their mappings, other lines are left unmapped.
+ */
+export function remapSourceMap(sourceMap: RawSourceMap, code: string, transformedCode: string): RawSourceMap {
+	const segments = decodeSegments(sourceMap.mappings);
+	const lines = matchLines(code.split('\n'), transformedCode.split('\n'));
+
+	return {
+		...sourceMap,
+		mappings: encodeSegments(lines.map((index) => (index === undefined ? [] : (segments[index] ?? [])))).replace(
+			/;+$/,
+			'',
+		),
+	};
+}
+
+function findPosition(lines: Segment[][], line: number, column: number): SourceLocation | undefined {
+	// Same lookup as the compiler's own: closest mapped line at or above, closest mapped column at or before
+	let lineIndex = line - 1;
+
+	while (lineIndex > 0 && !lines[lineIndex]?.length) {
+		lineIndex--;
+	}
+
+	const segment = [...(lines[lineIndex] ?? [])].reverse().find(([generatedColumn]) => generatedColumn <= column - 1);
+
+	return segment ? [segment[1] + 1, segment[2] + 1] : undefined;
+}
+
+/**
+ * Maps a one-based position in compiled code, as printed in stack traces, to the one-based position in the original
+ * file.
+ */
+export function mapSourcePosition(sourceMap: RawSourceMap, line: number, column: number): SourceLocation | undefined {
+	return findPosition(decodeMappings(sourceMap.mappings), line, column);
+}
+
+function formatFrame(frame: NodeJS.CallSite): string {
+	const lines = sourceMaps.get(frame.getFileName() ?? '');
+	const formatted = frame.toString();
+
+	if (!lines) {
+		return formatted;
+	}
+
+	// Bun's `getColumnNumber()` is off by one compared to V8, so read the position the frame actually prints
+	return formatted.replace(/:(\d+):(\d+)(\)?)$/, (location, line, column, suffix) => {
+		const position = findPosition(lines, Number(line), Number(column));
+
+		return position ? `:${position[0]}:${position[1]}${suffix}` : location;
+	});
+}
+
+/**
+ * Replaces `Error.prepareStackTrace` to report CoffeeScript positions in stack traces thrown from files with a
+ * registered source map. Stack traces without such frames are still formatted by the previous formatter, if any.
+ */
+export function installStackTraceHook(): void {
+	if (stackTraceHookInstalled) {
+		return;
+	}
+
+	const previousFormatter = Error.prepareStackTrace as StackTraceFormatter | undefined;
+
+	Error.prepareStackTrace = (error: Error, frames: NodeJS.CallSite[]) => {
+		if (previousFormatter && !frames.some((frame) => sourceMaps.has(frame.getFileName() ?? ''))) {
+			return previousFormatter(error, frames);
+		}
+
+		return `${error}\n${frames.map((frame) => `    at ${formatFrame(frame)}`).join('\n')}`;
+	};
+
+	stackTraceHookInstalled = true;
+}
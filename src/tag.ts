@@ -0,0 +1,9 @@
+/**
+ * Tags CoffeeScript embedded in TypeScript or JavaScript, e.g. `` coffee`export square = (x) -> x * x` ``. With the
+ * plugin's `templates` option, the template is compiled at build time and replaced by the namespace of the compiled
+ * module, so this function only runs when the plugin is missing.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: The exports of the compiled module are not known to TypeScript
+export function coffee<T = any>(_strings: TemplateStringsArray): T {
+	throw new Error('coffee templates are compiled by bun-plugin-coffeescript, enable its templates option');
+}
@@ -0,0 +1,196 @@
+import { basename } from 'node:path';
+import { CoffeeScriptError } from './errors.ts';
+import { type CoffeeScriptBlock, getPosition } from './html.ts';
+
+export const TEMPLATE_QUERY = '?coffee-template=';
+export const TEMPLATE_PATTERN = /\?coffee-template=(\d+)$/;
+export const HOST_PATTERN = /\.[cm]?[jt]sx?$/;
+
+const TAG = 'coffee`';
+const TAG_PATTERN = /coffee`((?:[^`\\]|\\[\s\S])*)`/y;
+
+/**
+ * Characters and keywords after which a `/` starts a regular expression rather than a division.
+ */
+const REGEX_PRECEDING_PATTERN =
+	/(?:[(,=:[!&|?{};+\-*%<>~^]|(?:^|[^\w$.])(?:return|typeof|case|do|else|in|of|new|delete|void|throw|instanceof|yield|await))$/;
+
+type CoffeeScriptTemplate = CoffeeScriptBlock & {
+	start: number;
+	end: number;
+};
+
+/**
+ * Skips a string literal, which can't span lines, so that a quote in e.g. JSX text only hides the rest of its line.
+ */
+function skipString(source: string, index: number): number {
+	const quote = source[index];
+
+	for (let i = index + 1; i < source.length; i++) {
+		if (source[i] === '\\') {
+			i++;
+		} else if (source[i] === quote || source[i] === '\n') {
+			return i + 1;
+		}
+	}
+
+	return source.length;
+}
+
+function isRegexStart(source: string, start: number, index: number): boolean {
+	const windowStart = Math.max(start, index - 32);
+	const before = source.slice(windowStart, index).trimEnd();
+
+	return before === '' ? windowStart === start : REGEX_PRECEDING_PATTERN.test(before);
+}
+
+/**
+ * Skips a regular expression literal, including its flags. Slashes in character classes don't end it.
+ */
+function skipRegex(source: string, index: number): number {
+	let inClass = false;
+
+	for (let i = index + 1; i < source.length; i++) {
+		const char = source[i];
+
+		if (char === '\\') {
+			i++;
+		} else if (char === '\n') {
+			return i;
+		} else if (char === '[' || char === ']') {
+			inClass = char === '[';
+		} else if (char === '/' && !inClass) {
+			return i + 1 + (source.slice(i + 1).match(/^[\w$]*/)?.[0].length ?? 0);
+		}
+	}
+
+	return source.length;
+}
+
+/**
+ * Skips a template literal, scanning the code of its placeholders for tags.
+ */
+function skipTemplate(source: string, index: number, tags: number[]): number {
+	for (let i = index + 1; i < source.length; i++) {
+		if (source[i] === '\\') {
+			i++;
+		} else if (source[i] === '`') {
+			return i + 1;
+		} else if (source.startsWith('${', i)) {
+			i = scanCode(source, i + 2, tags, true) - 1;
+		}
+	}
+
+	return source.length;
+}
+
+/**
+ * Collects the positions of `coffee` tags in code, skipping comments, strings, regular expressions and other template
+ * literals. In a template placeholder, it stops after the closing brace.
+ */
+function scanCode(source: string, index: number, tags: number[], placeholder = false): number {
+	let depth = 0;
+	let i = index;
+
+	while (i < source.length) {
+		const char = source[i] ?? '';
+
+		if (source.startsWith('//', i)) {
+			i = source.indexOf('\n', i) === -1 ? source.length : source.indexOf('\n', i);
+		} else if (source.startsWith('/*', i)) {
+			i = source.indexOf('*/', i + 2) === -1 ? source.length : source.indexOf('*/', i + 2) + 2;
+		} else if (char === "'" || char === '"') {
+			i = skipString(source, i);
+		} else if (char === '/' && isRegexStart(source, index, i)) {
+			i = skipRegex(source, i);
+		} else if (source.startsWith(TAG, i) && !/[\w$]/.test(source[i - 1] ?? '')) {
+			TAG_PATTERN.lastIndex = i;
+
+			if (!TAG_PATTERN.test(source)) {
+				return source.length;
+			}
+
+			tags.push(i);
+			i = TAG_PATTERN.lastIndex;
+		} else if (char === '`') {
+			i = skipTemplate(source, i, tags);
+		} else if (char === '}' && placeholder && depth === 0) {
+			return i + 1;
+		} else {
+			depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+			i++;
+		}
+	}
+
+	return i;
+}
+
+/**
+ * Finds the `` coffee`...` `` tagged templates in a TypeScript or JavaScript file, in source order. Tags in comments,
+ * strings and other template literals are ignored. Since templates are compiled at build time, they can't contain
+ * `${}` placeholders.
+ */
+export function findCoffeeScriptTemplates(path: string, source: string): CoffeeScriptTemplate[] {
+	const tags: number[] = [];
+
+	// Most files don't contain any template, so they aren't scanned
+	if (source.includes(TAG)) {
+		scanCode(source, 0, tags);
+	}
+
+	return tags.flatMap((start) => {
+		TAG_PATTERN.lastIndex = start;
+
+		const match = TAG_PATTERN.exec(source);
+
+		if (!match) {
+			return [];
+		}
+
+		const [template, contents = ''] = match;
+		const contentsStart = start + TAG.length;
+		const placeholder = contents.search(/(?<!\\)\$\{/);
+
+		if (placeholder !== -1) {
+			const { line, column } = getPosition(source, contentsStart + placeholder);
+
+			throw new CoffeeScriptError(
+				'placeholders are not supported in coffee templates, which are compiled at build time',
+				path,
+				source,
+				{ first_line: line, first_column: column, last_column: column + 1 },
+			);
+		}
+
+		return [
+			{
+				source: contents.replace(/\\(`|\$\{)/g, '$1'),
+				...getPosition(source, contentsStart),
+				start,
+				end: start + template.length,
+			},
+		];
+	});
+}
+
+/**
+ * Replaces the CoffeeScript templates in a file by the namespaces of modules importing them from the file itself, e.g.
+ * `./app.ts?coffee-template=0` for the first one. The imports are appended and each template keeps its line breaks,
+ * so that the lines of the file stay in place.
+ */
+export function rewriteTemplates(path: string, source: string): string {
+	const templates = findCoffeeScriptTemplates(path, source);
+	let rewritten = source;
+
+	for (const [index, { start, end }] of [...templates.entries()].reverse()) {
+		const lineBreaks = source.slice(start, end).replace(/[^\n]/g, '');
+
+		rewritten = `${rewritten.slice(0, start)}(coffeeTemplate$${index}${lineBreaks})${rewritten.slice(end)}`;
+	}
+
+	const imports = templates.map(
+		(_template, index) => `import * as coffeeTemplate$${index} from './${basename(path)}${TEMPLATE_QUERY}${index}';`,
+	);
+
+	return templates.length > 0 ? `${rewritten}\n${imports.join('\n')}\n` : source;
+}
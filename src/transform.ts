@@ -0,0 +1,69 @@
+import type { RawSourceMap } from 'coffeescript';
+import type { PluginOptions } from './options.ts';
+import { remapSourceMap } from './sourcemap.ts';
+
+export type TransformContext = {
+	/**
+	 * Path of the file being compiled.
+	 */
+	path: string;
+	/**
+	 * Whether the file is CoffeeScript or CSON. For CSON, the `after` hook receives the parsed data as JSON.
+	 */
+	format: 'coffeescript' | 'cson';
+	/**
+	 * The options that apply to the file, including overrides and header pragmas.
+	 */
+	options: PluginOptions;
+	/**
+	 * Source map of the compiled code, in the `after` hook of CoffeeScript files with source maps enabled.
+	 */
+	sourceMap?: RawSourceMap;
+};
+
+/**
+ * The code returned by an `after` hook, optionally with a source map replacing the compiler's, which must map the
+ * returned code back to the original file.
+ */
+export type TransformResult = string | { code: string; map?: RawSourceMap };
+
+export type TransformHooks = {
+	/**
+	 * Transforms the source before it is compiled or parsed. Compile errors and source maps refer to the transformed
+	 * source, so keeping its lines in place, e.g. by blanking out removed lines, keeps them pointing at the original.
+	 */
+	before?(source: string, context: TransformContext): string | Promise<string>;
+	/**
+	 * Transforms the compiled code. Unless a source map is returned, lines left as they were keep their mappings.
+	 */
+	after?(code: string, context: TransformContext): TransformResult | Promise<TransformResult>;
+};
+
+export async function transformBefore(source: string, context: TransformContext): Promise<string> {
+	const { before } = context.options.transform ?? {};
+
+	return before ? await before(source, context) : source;
+}
+
+/**
+ * Runs the `after` hook, if any, keeping the source map in line with the transformed code.
+ */
+export async function transformAfter(
+	code: string,
+	context: TransformContext,
+): Promise<{ code: string; sourceMap?: RawSourceMap }> {
+	const { after } = context.options.transform ?? {};
+
+	if (!after) {
+		return { code, sourceMap: context.sourceMap };
+	}
+
+	const result = await after(code, context);
+	const { code: transformedCode, map } = typeof result === 'string' ? { code: result, map: undefined } : result;
+
+	if (map || !context.sourceMap || transformedCode === code) {
+		return { code: transformedCode, sourceMap: map ?? context.sourceMap };
+	}
+
+	return { code: transformedCode, sourceMap: remapSourceMap(context.sourceMap, code, transformedCode) };
+}
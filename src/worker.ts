@@ -0,0 +1,24 @@
+import { loadCompiler } from './compiler.ts';
+import { compileCoffeeScript } from './loaders.ts';
+import type { CompileRequest, CompileResponse } from './workers.ts';
+
+declare const self: Worker;
+
+self.onmessage = ({ data }: MessageEvent<CompileRequest>) => {
+	const { id, fileContents, path, compilerOptions, sourcemap, compiler } = data;
+	let response: CompileResponse;
+
+	try {
+		response = {
+			id,
+			output: compileCoffeeScript(fileContents, path, compilerOptions, sourcemap, loadCompiler(compiler)),
+		};
+	} catch (error) {
+		// Errors lose their own properties when posted, so the location is passed along explicitly
+		const { name, message, stack, location } = error as Error & { location?: object };
+
+		response = { id, error: { name, message, stack, location } };
+	}
+
+	self.postMessage(response);
+};
@@ -0,0 +1,139 @@
+import { availableParallelism } from 'node:os';
+import type { CacheEntry } from './cache.ts';
+import { ConfigError } from './errors.ts';
+import type { CompilerOptions } from './options.ts';
+import type { SourceMapMode } from './sourcemap.ts';
+
+export type CompileRequest = {
+	id: number;
+	fileContents: string;
+	path: string;
+	compilerOptions: CompilerOptions;
+	sourcemap: SourceMapMode;
+	/**
+	 * Module name of a custom compiler, which each worker loads itself.
+	 */
+	compiler?: string;
+};
+
+export type CompileResponse = {
+	id: number;
+	output?: CacheEntry;
+	error?: { name: string; message: string; stack?: string; location?: object };
+};
+
+export type WorkerPool = {
+	compile(request: Omit<CompileRequest, 'id'>): Promise<CacheEntry>;
+	terminate(): void;
+};
+
+// The DOM typings of `Worker` are missing Bun's `unref()`
+type PoolWorker = Worker & { unref(): void };
+
+type Task = {
+	request: CompileRequest;
+	resolve(output: CacheEntry): void;
+	reject(error: Error): void;
+};
+
+function getPoolSize(workers: number | 'auto'): number {
+	if (workers === 'auto') {
+		return Math.max(availableParallelism() - 1, 1);
+	}
+
+	if (!Number.isInteger(workers) || workers < 1) {
+		throw new ConfigError(`Expected "workers" to be a positive integer or "auto", got ${workers}`, 'workers', [
+			'workers',
+		]);
+	}
+
+	return workers;
+}
+
+function toError({ name, message, stack, location }: NonNullable<CompileResponse['error']>): Error {
+	return Object.assign(new Error(message), { name, stack, location });
+}
+
+/**
+ * Creates a pool of workers to run the compiler in, so that compiling one file doesn't block the others. Workers are
+ * started on demand and don't keep the process alive. After termination, the pool starts new workers when needed.
+ */
+export function createWorkerPool(workers: number | 'auto'): WorkerPool {
+	const size = getPoolSize(workers);
+	const idleWorkers: PoolWorker[] = [];
+	const runningTasks = new Map<PoolWorker, Task>();
+	const queue: Task[] = [];
+	let nextId = 0;
+
+	function startWorker(): PoolWorker {
+		const worker = new Worker(new URL('./worker.ts', import.meta.url)) as PoolWorker;
+
+		worker.unref();
+		worker.onmessage = ({ data }: MessageEvent<CompileResponse>) => {
+			const task = runningTasks.get(worker);
+			runningTasks.delete(worker);
+
+			if (data.error) {
+				task?.reject(toError(data.error));
+			} else if (data.output) {
+				task?.resolve(data.output);
+			}
+
+			idleWorkers.push(worker);
+			dispatch();
+		};
+		worker.onerror = (event) => {
+			const index = idleWorkers.indexOf(worker);
+
+			// A worker can also fail while idle, and must not be handed the next task then
+			if (index !== -1) {
+				idleWorkers.splice(index, 1);
+			}
+
+			runningTasks.get(worker)?.reject(new Error(`Compiler worker failed: ${event.message}`));
+			runningTasks.delete(worker);
+			worker.terminate();
+			dispatch();
+		};
+
+		return worker;
+	}
+
+	function dispatch(): void {
+		while (queue.length > 0) {
+			const worker = idleWorkers.pop() ?? (runningTasks.size < size ? startWorker() : undefined);
+
+			if (!worker) {
+				return;
+			}
+
+			const task = queue.shift() as Task;
+
+			runningTasks.set(worker, task);
+			worker.postMessage(task.request);
+		}
+	}
+
+	return {
+		compile(request) {
+			return new Promise((resolve, reject) => {
+				queue.push({ request: { ...request, id: nextId++ }, resolve, reject });
+				dispatch();
+			});
+		},
+
+		terminate() {
+			for (const worker of [...idleWorkers, ...runningTasks.keys()]) {
+				worker.terminate();
+			}
+
+			for (const task of [...runningTasks.values(), ...queue]) {
+				task.reject(new Error('The compiler workers were terminated'));
+			}
+
+			idleWorkers.length = 0;
+			queue.length = 0;
+			runningTasks.clear();
+		},
+	};
+}
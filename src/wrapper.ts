@@ -0,0 +1,78 @@
+import { type AstNode, getType, parseNodes } from './ast.ts';
+
+export type ModuleMode = 'auto' | 'script' | 'module';
+
+type ScriptFeature = {
+	reason: string;
+	line: number;
+	column: number;
+};
+
+const SCRIPT_FEATURE_PATTERN = /@|\bthis\b|\barguments\b|\breturn\b/;
+
+function createFeature(node: AstNode, reason: string): ScriptFeature {
+	return { reason, line: (node.locationData?.first_line ?? 0) + 1, column: (node.locationData?.first_column ?? 0) + 1 };
+}
+
+/**
+ * Collects the top-level code that relies on the function wrapper. Functions and classes have their own `this`, so only
+ * bound functions are searched.
+ */
+function findScriptFeatures(node: AstNode, features: ScriptFeature[]): ScriptFeature[] {
+	const type = getType(node);
+
+	if ((type === 'Code' && !node.bound) || type === 'Class') {
+		return features;
+	}
+
+	if (type === 'Assign' && getType(node.variable?.base) === 'ThisLiteral') {
+		features.push(createFeature(node, 'assigning to top-level this, e.g. to define a global, fails in a module'));
+	} else if (type === 'ThisLiteral') {
+		features.push(createFeature(node, 'top-level this is undefined in a module'));
+	} else if (type === 'IdentifierLiteral' && node.value === 'arguments') {
+		features.push(createFeature(node, 'top-level arguments is not defined in a module'));
+	} else if (type === 'Return') {
+		features.push(createFeature(node, 'top-level return is a syntax error in a module'));
+	}
+
+	node.eachChild((child) => {
+		// The target of an assignment to this has already been reported
+		if (!(type === 'Assign' && child === node.variable)) {
+			findScriptFeatures(child, features);
+		}
+	});
+
+	return features;
+}
+
+/**
+ * Decides whether a file compiles without the `(function() { ... }).call(this)` wrapper. In `auto` mode, a file is
+ * compiled bare unless its top-level code uses `this`, `arguments` or `return`, which would change meaning in a module,
+ * in which case a warning is logged. Files with `import` or `export` are always compiled bare by the compiler.
+ */
+export function isBare(path: string, source: string, moduleMode: ModuleMode, literate = false): boolean {
+	if (moduleMode !== 'auto') {
+		return moduleMode === 'module';
+	}
+
+	if (!SCRIPT_FEATURE_PATTERN.test(source)) {
+		return true;
+	}
+
+	let root: AstNode;
+
+	try {
+		root = parseNodes(source, literate);
+	} catch {
+		// Syntax errors are left to the compiler to report
+		return false;
+	}
+
+	const features = findScriptFeatures(root, []);
+
+	for (const { reason, line, column } of features) {
+		console.warn(`${path}:${line}:${column}: ${reason}, keeping the function wrapper. Set moduleMode to silence this.`);
+	}
+
+	return features.length === 0;
+}
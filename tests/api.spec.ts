@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, {
+	CoffeeScriptError,
+	compileFile,
+	compileSource,
+	createPipeline,
+	LintError,
+	type PluginOptions,
+	parseCson,
+	parseCsonFile,
+} from '../src/index.ts';
+import { getOnLoadCallback, getRejection, isObjectResult, isSourceResult } from './helpers.ts';
+
+describe('Programmatic API', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-api-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	async function loadWithPlugin(path: string, options: PluginOptions) {
+		const result = await getOnLoadCallback(Plugin(options))({ path });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		return result;
+	}
+
+	test.each<[string, string, PluginOptions]>([
+		['default options', 'app.coffee', { config: false }],
+		['bare and header', 'app.coffee', { config: false, bare: true, header: true }],
+		['inline source maps', 'app.coffee', { config: false, sourcemap: 'inline' }],
+		['external source maps', 'app.coffee', { config: false, sourcemap: 'external' }],
+		['module mode', 'app.coffee', { config: false, moduleMode: 'auto' }],
+		['hot updates', 'app.coffee', { config: false, hmr: true }],
+		['JSX', 'view.coffee', { config: false }],
+		['literate files', 'app.litcoffee', { config: false, sourcemap: 'inline' }],
+		['overrides', 'app.coffee', { config: false, overrides: [{ include: '**/app.coffee', options: { bare: true } }] }],
+		['a config file', 'app.coffee', { config: 'coffee.config.cson' }],
+	])('produces the same output as the plugin with %s', async (_name, fileName, options) => {
+		const path = join(tempDir, fileName);
+		const source = fileName.endsWith('.litcoffee')
+			? 'Squares a number\n\n    export square = (x) -> x * x\n'
+			: fileName === 'view.coffee'
+				? 'export View = ({ name }) -> <h1>Hello {name}</h1>\n'
+				: 'export square = (x) -> x * x\n';
+		await writeFile(path, source);
+		await writeFile(join(tempDir, 'coffee.config.cson'), 'bare: true\nsourcemap: "inline"\n');
+		const cwd = spyOn(process, 'cwd').mockReturnValue(tempDir);
+
+		try {
+			const expected = await loadWithPlugin(path, options);
+			const fromFile = await compileFile(path, options);
+			const fromSource = await compileSource(source, { ...options, filename: path });
+
+			expect(fromFile.code).toBe(expected.contents);
+			expect(fromFile.loader).toBe(expected.loader as 'js' | 'jsx');
+			expect(fromSource.code).toBe(expected.contents);
+		} finally {
+			cwd.mockRestore();
+		}
+	});
+
+	test('returns the source map, diagnostics and timings', async () => {
+		const path = join(tempDir, 'app.coffee');
+		await writeFile(path, 'export square = (x) -> x * x\nunused = 1\n');
+		const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+		const result = await compileFile(path, { config: false, sourcemap: 'inline', lint: true });
+		const warnings = warn.mock.calls.length;
+		warn.mockRestore();
+
+		expect(result.map?.sources).toEqual([path]);
+		expect(result.map?.mappings).toBeString();
+		expect(result.diagnostics).toEqual([
+			{
+				rule: 'unused-assignment',
+				severity: 'warn',
+				message: '"unused" is assigned but never used',
+				line: 2,
+				column: 1,
+			},
+		]);
+		expect(warnings).toBe(0);
+		expect(result.timings.read).toBeGreaterThanOrEqual(0);
+		expect(result.timings.compile).toBeGreaterThan(0);
+	});
+
+	test('returns no source map or diagnostics by default', async () => {
+		const result = await compileSource('square = (x) -> x * x\n', { config: false, filename: 'app.coffee' });
+
+		expect(result.map).toBeUndefined();
+		expect(result.diagnostics).toEqual([]);
+		expect(result.timings.read).toBe(0);
+	});
+
+	test('returns external source maps without writing them', async () => {
+		const path = join(tempDir, 'app.coffee');
+		await writeFile(path, 'export square = (x) -> x * x\n');
+
+		const result = await compileFile(path, { config: false, sourcemap: 'external' });
+
+		expect(result.map?.sources).toEqual([path]);
+		expect(result.code).not.toContain('sourceMappingURL');
+		expect(await readdir(tempDir)).toEqual(['app.coffee']);
+	});
+
+	test('reuses the options of a pipeline across files', async () => {
+		const configFile = join(tempDir, 'coffee.config.cson');
+		await writeFile(configFile, 'bare: true\nlint: true\n');
+		const warn = spyOn(console, 'warn').mockImplementation(() => {});
+		const cwd = spyOn(process, 'cwd').mockReturnValue(tempDir);
+
+		try {
+			const pipeline = createPipeline();
+			await writeFile(configFile, 'bare: false\n');
+
+			const first = await pipeline.compileSource('unused = 1\n', { filename: 'first.coffee' });
+			const second = await pipeline.compileSource('export square = (x) -> x * x\n', { filename: 'second.coffee' });
+			const data = await pipeline.parseCson('size: 4\n');
+
+			expect(first.code).not.toContain('(function() {');
+			expect(first.diagnostics.map(({ rule }) => rule)).toEqual(['unused-assignment']);
+			expect(second.diagnostics).toEqual([]);
+			expect(data.data).toEqual({ size: 4 });
+		} finally {
+			cwd.mockRestore();
+			warn.mockRestore();
+		}
+	});
+
+	test('throws compile and lint errors like the plugin', async () => {
+		const syntaxError = await getRejection(compileSource('if\n', { config: false, filename: 'app.coffee' }));
+		const lintError = await getRejection(
+			compileSource('a = 1\n', { config: false, filename: 'app.coffee', lint: { 'unused-assignment': 'error' } }),
+		);
+
+		expect(syntaxError).toBeInstanceOf(CoffeeScriptError);
+		expect((syntaxError as CoffeeScriptError).file).toBe(join(process.cwd(), 'app.coffee'));
+		expect(lintError).toBeInstanceOf(LintError);
+	});
+
+	test('parses CSON files like the plugin', async () => {
+		const path = join(tempDir, 'config.cson');
+		await writeFile(join(tempDir, 'base.cson'), 'port: 3000\nhost: "localhost"\n');
+		await writeFile(path, '$include: "./base.cson"\nport: 8080\n');
+		const options: PluginOptions = { config: false, cson: { include: true } };
+
+		const expected = await getOnLoadCallback(Plugin(options))({ path });
+		const result = await parseCsonFile(path, options);
+
+		if (!isObjectResult(expected)) throw new Error('Expected object result');
+		expect(result.data).toEqual(expected.exports);
+		expect(result.data).toEqual({ port: 8080, host: 'localhost' });
+		expect(result.dependencies).toEqual([join(tempDir, 'base.cson')]);
+		expect(result.timings.parse).toBeGreaterThan(0);
+	});
+
+	test('parses CSON source', async () => {
+		const result = await parseCson('name: "app"\nsizes: [1, 2]\n', { config: false });
+
+		expect(result.data).toEqual({ name: 'app', sizes: [1, 2] });
+		expect(result.dependencies).toEqual([]);
+		expect(result.timings.read).toBe(0);
+	});
+
+	test('resolves CSON includes relative to the filename', async () => {
+		await writeFile(join(tempDir, 'base.cson'), 'port: 3000\n');
+
+		const result = await parseCson('$include: "./base.cson"\n', {
+			config: false,
+			cson: { include: true },
+			filename: join(tempDir, 'config.cson'),
+		});
+
+		expect(result.data).toEqual({ port: 3000 });
+	});
+});
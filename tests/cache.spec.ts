@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { clearCache } from '../src/index.ts';
+import { getOnLoadCallback, isSourceResult } from './helpers.ts';
+
+/**
+ * Overwrites the compiled code of every cache entry, so that a cache hit becomes observable
+ */
+async function tamperCache(cacheDir: string): Promise<void> {
+	for (const fileName of await readdir(cacheDir)) {
+		const path = join(cacheDir, fileName);
+		const entry = JSON.parse(await readFile(path, 'utf8'));
+
+		await writeFile(path, JSON.stringify({ ...entry, js: '/* from cache */' }));
+	}
+}
+
+describe('Compilation cache', () => {
+	let tempDir: string;
+	let cacheDir: string;
+	let coffeeFile: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-cache-'));
+		cacheDir = join(tempDir, '.cache');
+		coffeeFile = join(tempDir, 'cached.coffee');
+		await writeFile(coffeeFile, 'square = (x) -> x * x\n');
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test('compiles and stores files on a cold build', async () => {
+		const result = await getOnLoadCallback(Plugin({ cache: { dir: cacheDir } }))({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents).toContain('square = function(x)');
+		expect(await readdir(cacheDir)).toHaveLength(1);
+	});
+
+	test('skips the compiler on a warm build', async () => {
+		await getOnLoadCallback(Plugin({ cache: { dir: cacheDir } }))({ path: coffeeFile });
+		await tamperCache(cacheDir);
+
+		const result = await getOnLoadCallback(Plugin({ cache: { dir: cacheDir } }))({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents).toBe('/* from cache */');
+	});
+
+	test('does not serve stale entries after the options change', async () => {
+		await getOnLoadCallback(Plugin({ cache: { dir: cacheDir } }))({ path: coffeeFile });
+		await tamperCache(cacheDir);
+
+		const result = await getOnLoadCallback(Plugin({ bare: true, cache: { dir: cacheDir } }))({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents).toContain('square = function(x)');
+		expect(result.contents).not.toContain('(function()');
+		expect(await readdir(cacheDir)).toHaveLength(2);
+	});
+
+	test('does not serve stale entries after the source changes', async () => {
+		await getOnLoadCallback(Plugin({ cache: { dir: cacheDir } }))({ path: coffeeFile });
+		await tamperCache(cacheDir);
+		await writeFile(coffeeFile, 'cube = (x) -> x * x * x\n');
+
+		const result = await getOnLoadCallback(Plugin({ cache: { dir: cacheDir } }))({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents).toContain('cube = function(x)');
+	});
+
+	test('stores source maps alongside the compiled code', async () => {
+		const options = { cache: { dir: cacheDir }, sourcemap: 'inline' } as const;
+		const coldResult = await getOnLoadCallback(Plugin(options))({ path: coffeeFile });
+		const warmResult = await getOnLoadCallback(Plugin(options))({ path: coffeeFile });
+
+		if (!isSourceResult(coldResult) || !isSourceResult(warmResult)) throw new Error('Expected source result');
+		expect(warmResult.contents).toBe(coldResult.contents);
+		expect(warmResult.contents).toContain('sourceMappingURL=data:application/json');
+	});
+
+	test('evicts the least recently used entries', async () => {
+		const onLoadCallback = getOnLoadCallback(Plugin({ cache: { dir: cacheDir } }));
+
+		for (const name of ['first', 'second', 'third']) {
+			const path = join(tempDir, `${name}.coffee`);
+			await writeFile(path, `${name} = -> '${name}'\n`);
+			await onLoadCallback({ path });
+		}
+
+		const entries = await readdir(cacheDir);
+		const past = new Date(Date.now() - 60_000);
+		await Promise.all(entries.map((entry) => utimes(join(cacheDir, entry), past, past)));
+
+		await getOnLoadCallback(Plugin({ cache: { dir: cacheDir, maxEntries: 1 } }))({ path: coffeeFile });
+
+		expect(await readdir(cacheDir)).toHaveLength(2);
+	});
+
+	test('evicts expired entries', async () => {
+		await getOnLoadCallback(Plugin({ cache: { dir: cacheDir } }))({ path: coffeeFile });
+
+		await tamperCache(cacheDir);
+
+		const past = new Date(Date.now() - 60_000);
+		await Promise.all((await readdir(cacheDir)).map((entry) => utimes(join(cacheDir, entry), past, past)));
+
+		const result = await getOnLoadCallback(Plugin({ cache: { dir: cacheDir, maxAge: 1000 } }))({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents).toContain('square = function(x)');
+	});
+
+	test('clears the cache', async () => {
+		await getOnLoadCallback(Plugin({ cache: { dir: cacheDir } }))({ path: coffeeFile });
+		await clearCache(cacheDir);
+
+		expect(await Bun.file(cacheDir).exists()).toBe(false);
+	});
+});
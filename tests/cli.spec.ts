@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+
+const cliFile = resolve(import.meta.dir, '../src/cli.ts');
+
+describe('CLI', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-cli-'));
+		await mkdir(join(tempDir, 'src', 'lib'), { recursive: true });
+		await writeFile(join(tempDir, 'package.json'), JSON.stringify({ type: 'module' }));
+		await writeFile(join(tempDir, 'src', 'lib', 'index.coffee'), 'export square = (x) -> x * x\n');
+		await writeFile(join(tempDir, 'src', 'config.cson'), 'size: 4\n');
+		await writeFile(
+			join(tempDir, 'src', 'app.coffee'),
+			"import { square } from './lib'\nimport config from './config.cson'\nconsole.log square config.size\n",
+		);
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Runs the CLI in the temporary directory
+	 */
+	function runCli(...args: string[]) {
+		const { exitCode, stdout, stderr } = Bun.spawnSync({ cmd: [process.execPath, cliFile, ...args], cwd: tempDir });
+
+		return { exitCode, stdout: stdout.toString(), stderr: stderr.toString() };
+	}
+
+	/**
+	 * Starts the CLI in watch mode and waits until it watches for changes, so that no change is missed
+	 */
+	async function startWatching() {
+		const child = Bun.spawn({
+			cmd: [process.execPath, cliFile, 'src', '--out-dir', 'dist', '--watch'],
+			cwd: tempDir,
+		});
+		const reader = child.stdout.getReader();
+		let stdout = '';
+
+		while (!stdout.includes('Watching')) {
+			const { value, done } = await reader.read();
+
+			if (done) throw new Error(`The CLI exited before watching:\n${stdout}`);
+			stdout += new TextDecoder().decode(value);
+		}
+
+		reader.releaseLock();
+
+		return child;
+	}
+
+	/**
+	 * Lists all files in a directory of the temporary directory, relative to it
+	 */
+	async function listFiles(dir: string): Promise<string[]> {
+		return (await readdir(join(tempDir, dir), { recursive: true, withFileTypes: true }))
+			.filter((entry) => entry.isFile())
+			.map((entry) => join(entry.parentPath, entry.name).slice(join(tempDir, dir).length + 1))
+			.sort();
+	}
+
+	test('compiles a source tree to plain JavaScript', async () => {
+		const { exitCode, stdout } = runCli('src', '--out-dir', 'dist', '--cson', 'module');
+
+		expect(exitCode).toBe(0);
+		expect(stdout).toContain('Compiled 3 files with no errors');
+		expect(await listFiles('dist')).toEqual(['app.js', 'config.js', 'lib/index.js']);
+
+		const { stdout: output } = Bun.spawnSync({ cmd: ['node', join(tempDir, 'dist', 'app.js')] });
+
+		expect(output.toString().trim()).toBe('16');
+	});
+
+	test('compiles CSON to JSON', async () => {
+		runCli('src', '--out-dir', 'dist');
+
+		expect(await Bun.file(join(tempDir, 'dist', 'config.json')).json()).toEqual({ size: 4 });
+		expect(await Bun.file(join(tempDir, 'dist', 'app.js')).text()).toContain("from './config.json'");
+
+		const { stdout: output, stderr } = Bun.spawnSync({ cmd: ['node', join(tempDir, 'dist', 'app.js')] });
+
+		expect(stderr.toString()).toBe('');
+		expect(output.toString().trim()).toBe('16');
+	});
+
+	test('points macro imports at the compiled module', async () => {
+		await writeFile(
+			join(tempDir, 'src', 'app.coffee'),
+			"import { square } from './lib' assert { type: 'macro' }\nconsole.log square 3\n",
+		);
+
+		runCli('src', '--out-dir', 'dist');
+
+		const js = await Bun.file(join(tempDir, 'dist', 'app.js')).text();
+		const { stdout: output } = Bun.spawnSync({ cmd: ['node', join(tempDir, 'dist', 'app.js')] });
+
+		expect(js).toContain("from './lib/index.js'");
+		expect(js).not.toContain('macro');
+		expect(output.toString().trim()).toBe('9');
+	});
+
+	test('writes external source maps', async () => {
+		runCli('src', '--out-dir', 'dist', '--sourcemap', 'external');
+
+		const sourceMap = await Bun.file(join(tempDir, 'dist', 'lib', 'index.js.map')).json();
+
+		expect(await listFiles('dist')).toContain('lib/index.js.map');
+		expect(await Bun.file(join(tempDir, 'dist', 'lib', 'index.js')).text()).toContain(
+			'//# sourceMappingURL=index.js.map',
+		);
+		expect(sourceMap.file).toBe('index.js');
+		expect(sourceMap.sources).toEqual(['../../src/lib/index.coffee']);
+	});
+
+	test('writes declarations to a types directory', async () => {
+		const { exitCode, stderr } = runCli('src', '--out-dir', 'dist', '--types-dir', 'types');
+
+		expect(exitCode).toBe(0);
+		expect(await listFiles('types')).toEqual(['app.coffee.d.ts', 'config.cson.d.ts', 'lib/index.coffee.d.ts']);
+		expect(stderr).toContain(`${join('src', 'lib', 'index.coffee')}: missing type annotations for square`);
+	});
+
+	test('reports errors without writing files in check mode', async () => {
+		await writeFile(join(tempDir, 'src', 'broken.coffee'), 'square = (x) ->\n  x * (x\n');
+
+		const { exitCode, stdout, stderr } = runCli('src', '--check');
+
+		expect(exitCode).toBe(1);
+		expect(stderr).toContain(`${join(tempDir, 'src', 'broken.coffee')}:2:`);
+		expect(stdout).toContain('Checked 4 files with 1 error');
+		expect(await listFiles('src')).not.toContain('app.js');
+	});
+
+	test('fails on invalid arguments', () => {
+		const { exitCode, stderr } = runCli('src');
+
+		expect(exitCode).toBe(2);
+		expect(stderr).toContain('Missing --out-dir');
+		expect(stderr).toContain('Usage: coffee-bun');
+	});
+
+	test('reports invalid options in the config file as compile errors', async () => {
+		await writeFile(join(tempDir, 'coffee.config.cson'), 'bair: true\n');
+
+		const { exitCode, stderr } = runCli('src', '--out-dir', 'dist');
+
+		expect(exitCode).toBe(1);
+		expect(stderr).toContain('Unknown option "bair"');
+		expect(stderr).not.toContain('Usage: coffee-bun');
+	});
+
+	test('recompiles changed files in watch mode', async () => {
+		const outFile = join(tempDir, 'dist', 'lib', 'index.js');
+		const child = await startWatching();
+
+		/**
+		 * Polls the compiled file until it contains the expected code
+		 */
+		async function waitForOutput(expected: string): Promise<string> {
+			for (let attempt = 0; attempt < 300; attempt++) {
+				const contents = await Bun.file(outFile)
+					.text()
+					.catch(() => '');
+
+				if (contents.includes(expected)) {
+					return contents;
+				}
+
+				await Bun.sleep(50);
+			}
+
+			throw new Error(`Timed out waiting for ${expected}`);
+		}
+
+		try {
+			await waitForOutput('x * x');
+			await writeFile(join(tempDir, 'src', 'lib', 'index.coffee'), 'export square = (x) -> x ** 2\n');
+
+			expect(await waitForOutput('x ** 2')).not.toContain('x * x');
+		} finally {
+			child.kill();
+			await child.exited;
+		}
+	}, 20000);
+
+	test('recompiles CSON files when the files they include change', async () => {
+		await writeFile(join(tempDir, 'coffee.config.cson'), 'cson:\n  include: true\n');
+		await writeFile(join(tempDir, 'src', 'base.cson'), 'size: 4\nname: "base"\n');
+		await writeFile(join(tempDir, 'src', 'config.cson'), '$include: "./base.cson"\nname: "app"\n');
+		const outFile = join(tempDir, 'dist', 'config.json');
+		const child = await startWatching();
+
+		async function waitForSize(size: number): Promise<unknown> {
+			for (let attempt = 0; attempt < 300; attempt++) {
+				const contents = await Bun.file(outFile)
+					.json()
+					.catch(() => undefined);
+
+				if (contents?.size === size) {
+					return contents;
+				}
+
+				await Bun.sleep(50);
+			}
+
+			throw new Error(`Timed out waiting for size ${size}`);
+		}
+
+		try {
+			await waitForSize(4);
+			await writeFile(join(tempDir, 'src', 'base.cson'), 'size: 8\nname: "base"\n');
+
+			expect(await waitForSize(8)).toEqual({ size: 8, name: 'app' });
+		} finally {
+			child.kill();
+			await child.exited;
+		}
+	}, 20000);
+});
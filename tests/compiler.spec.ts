@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import Plugin, { CoffeeScriptError } from '../src/index.ts';
+import { getOnLoadCallback, getRejection, isSourceResult } from './helpers.ts';
+
+const cliFile = resolve(import.meta.dir, '../src/cli.ts');
+
+/**
+ * Creates a compiler that compiles every file to the given code
+ */
+function createStubCompiler(js: string, VERSION?: string) {
+	return { VERSION, compile: mock((_source: string, _options?: object) => js) };
+}
+
+describe('Custom compiler', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-compiler-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test('compiles with the given compiler', async () => {
+		const coffeeFile = join(tempDir, 'app.coffee');
+		await writeFile(coffeeFile, 'square = (x) -> x * x\n');
+		const compiler = createStubCompiler('var legacy = true;\n', '1.12.7');
+
+		const result = await getOnLoadCallback(Plugin({ config: false, bare: true, compiler }))({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents).toBe('var legacy = true;\n');
+		expect(compiler.compile).toHaveBeenCalledTimes(1);
+		expect(compiler.compile.mock.calls[0]).toEqual([
+			'square = (x) -> x * x\n',
+			{ filename: coffeeFile, bare: true, literate: false },
+		]);
+	});
+
+	test('passes source only CoffeeScript 1.x accepts to the compiler', async () => {
+		const coffeeFile = join(tempDir, 'legacy.coffee');
+		const source = 'await = 1\nstatic = 1\nlet = 2\na = 010\n';
+		await writeFile(coffeeFile, source);
+		const compiler = createStubCompiler('var legacy = true;\n', '1.12.7');
+		const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+		const result = await getOnLoadCallback(
+			Plugin({ config: false, compiler, moduleMode: 'auto', lint: { 'unused-assignment': 'error' }, hmr: true }),
+		)({ path: coffeeFile });
+		const warnings = warn.mock.calls.length;
+		warn.mockRestore();
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result).toEqual({ contents: 'var legacy = true;\n', loader: 'js' });
+		expect(compiler.compile.mock.calls).toEqual([[source, { filename: coffeeFile, bare: false, literate: false }]]);
+		expect(warnings).toBe(0);
+	});
+
+	test('uses the compiler of the matching override', async () => {
+		await mkdir(join(tempDir, 'legacy'));
+		await writeFile(join(tempDir, 'legacy', 'old.coffee'), 'x = 1\n');
+		await writeFile(join(tempDir, 'new.coffee'), 'x = 1\n');
+		const compiler = createStubCompiler('var legacy = true;\n', '1.12.7');
+		const onLoad = getOnLoadCallback(
+			Plugin({ config: false, overrides: [{ include: join(tempDir, 'legacy'), options: { compiler } }] }),
+		);
+
+		const legacyResult = await onLoad({ path: join(tempDir, 'legacy', 'old.coffee') });
+		const result = await onLoad({ path: join(tempDir, 'new.coffee') });
+
+		if (!isSourceResult(legacyResult) || !isSourceResult(result)) throw new Error('Expected source results');
+		expect(legacyResult.contents).toBe('var legacy = true;\n');
+		expect(result.contents).toContain('x = 1;');
+		expect(compiler.compile).toHaveBeenCalledTimes(1);
+	});
+
+	test('records the compiler version in cache keys', async () => {
+		const coffeeFile = join(tempDir, 'cached.coffee');
+		await writeFile(coffeeFile, 'x = 1\n');
+		const cache = { dir: join(tempDir, 'cache') };
+
+		for (const compiler of [
+			createStubCompiler('var a;\n', '1.12.7'),
+			createStubCompiler('var b;\n', '1.12.6'),
+			createStubCompiler('var c;\n', '1.12.7'),
+		]) {
+			await getOnLoadCallback(Plugin({ config: false, cache, compiler }))({ path: coffeeFile });
+		}
+
+		const entries = await readdir(cache.dir);
+		const contents = await Promise.all(entries.map((entry) => readFile(join(cache.dir, entry), 'utf8')));
+
+		expect(entries).toHaveLength(2);
+		expect(contents.join('\n')).toContain('var a;');
+		expect(contents.join('\n')).toContain('var b;');
+	});
+
+	test('does not cache the output of compilers without a version', async () => {
+		const coffeeFile = join(tempDir, 'cached.coffee');
+		await writeFile(coffeeFile, 'x = 1\n');
+		const cache = { dir: join(tempDir, 'cache') };
+
+		for (const js of ['var a;\n', 'var b;\n']) {
+			const result = await getOnLoadCallback(Plugin({ config: false, cache, compiler: createStubCompiler(js) }))({
+				path: coffeeFile,
+			});
+
+			if (!isSourceResult(result)) throw new Error('Expected source result');
+			expect(result.contents).toContain(js);
+		}
+
+		expect(await readdir(cache.dir).catch(() => [])).toEqual([]);
+	});
+
+	test('records the compiler version in error messages', async () => {
+		const coffeeFile = join(tempDir, 'broken.coffee');
+		await writeFile(coffeeFile, 'x = (\n');
+		const compiler = {
+			VERSION: '1.12.7',
+			compile: () => {
+				throw Object.assign(new SyntaxError('missing )'), { location: { first_line: 0, first_column: 4 } });
+			},
+		};
+
+		const error = await getRejection(getOnLoadCallback(Plugin({ config: false, compiler }))({ path: coffeeFile }));
+
+		expect(error).toBeInstanceOf(CoffeeScriptError);
+		expect((error as CoffeeScriptError).message).toStartWith(`${coffeeFile}:1:5: missing ) (CoffeeScript 1.12.7)`);
+	});
+
+	test('loads a compiler by module name, also in workers', async () => {
+		await mkdir(join(tempDir, 'node_modules', 'legacy-coffee'), { recursive: true });
+		await mkdir(join(tempDir, 'src'));
+		await writeFile(
+			join(tempDir, 'node_modules', 'legacy-coffee', 'index.js'),
+			"exports.VERSION = '1.12.7';\nexports.compile = (source) => '// ' + source.trim() + '\\n';\n",
+		);
+		await writeFile(join(tempDir, 'coffee.config.cson'), "compiler: 'legacy-coffee'\nworkers: 1\n");
+		await writeFile(join(tempDir, 'src', 'app.coffee'), 'x = 1\n');
+
+		const { exitCode } = Bun.spawnSync({ cmd: [process.execPath, cliFile, 'src', '--out-dir', 'dist'], cwd: tempDir });
+
+		expect(exitCode).toBe(0);
+		expect(await readFile(join(tempDir, 'dist', 'app.js'), 'utf8')).toBe('// x = 1\n');
+	});
+});
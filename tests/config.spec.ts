@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { ConfigError, findConfig, loadConfig } from '../src/index.ts';
+import { getOnLoadCallback, isSourceResult } from './helpers.ts';
+
+describe('Config files', () => {
+	let tempDir: string;
+	let nestedDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-config-'));
+		nestedDir = join(tempDir, 'packages', 'app');
+		await mkdir(nestedDir, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test('loads a CSON config file', async () => {
+		await writeFile(join(tempDir, 'coffee.config.cson'), "bare: true\nsourcemap: 'inline'\n");
+
+		expect(loadConfig(undefined, tempDir)).toEqual({ bare: true, sourcemap: 'inline' });
+	});
+
+	test('loads a CoffeeScript config file', async () => {
+		await writeFile(join(tempDir, 'coffee.config.coffee'), 'export default\n  header: true\n  bare: 1 is 1\n');
+
+		expect(loadConfig(undefined, tempDir)).toEqual({ header: true, bare: true });
+	});
+
+	test('loads the coffeescript key of package.json', async () => {
+		await writeFile(join(tempDir, 'package.json'), JSON.stringify({ name: 'app', coffeescript: { bare: true } }));
+
+		expect(loadConfig(undefined, tempDir)).toEqual({ bare: true });
+	});
+
+	test('searches parent directories', async () => {
+		await writeFile(join(tempDir, 'coffee.config.cson'), 'bare: true\n');
+		await writeFile(join(nestedDir, 'package.json'), JSON.stringify({ name: 'app' }));
+
+		expect(findConfig(nestedDir)).toBe(join(tempDir, 'coffee.config.cson'));
+		expect(loadConfig(undefined, nestedDir)).toEqual({ bare: true });
+	});
+
+	test('prefers the closest config file', async () => {
+		await writeFile(join(tempDir, 'coffee.config.cson'), 'bare: true\n');
+		await writeFile(join(nestedDir, 'package.json'), JSON.stringify({ coffeescript: { header: true } }));
+
+		expect(loadConfig(undefined, nestedDir)).toEqual({ header: true });
+	});
+
+	test('loads an explicit config file', async () => {
+		await writeFile(join(tempDir, 'custom.cson'), 'header: true\n');
+
+		expect(loadConfig('custom.cson', tempDir)).toEqual({ header: true });
+	});
+
+	test('rejects unknown options', async () => {
+		const configFile = join(tempDir, 'coffee.config.cson');
+		await writeFile(configFile, 'bare: true\nsourceMaps: true\n');
+
+		expect(() => loadConfig(undefined, tempDir)).toThrow(ConfigError);
+		expect(() => loadConfig(undefined, tempDir)).toThrow(`Unknown option "sourceMaps" in ${configFile}`);
+	});
+
+	test('rejects unknown plugin options', () => {
+		// @ts-expect-error testing invalid options
+		expect(() => Plugin({ config: false, bair: true })).toThrow('Unknown option "bair" in the plugin options');
+	});
+
+	test('rejects unknown lint rules and severities', async () => {
+		const configFile = join(tempDir, 'coffee.config.cson');
+		await writeFile(configFile, "lint:\n  shadow: 'warning'\n");
+
+		expect(() => loadConfig(undefined, tempDir)).toThrow(ConfigError);
+		expect(() => loadConfig(undefined, tempDir)).toThrow(
+			`Invalid severity "warning" of the lint rule "shadow" in ${configFile}, expected off, warn, error.`,
+		);
+		// @ts-expect-error testing invalid options
+		expect(() => Plugin({ config: false, lint: { shadows: 'warn' } })).toThrow(
+			'Unknown lint rule "shadows" in the plugin options. Valid rules are shadow, unused-assignment',
+		);
+	});
+
+	test('rejects unknown options in overrides', async () => {
+		const configFile = join(tempDir, 'coffee.config.cson');
+		await writeFile(configFile, "overrides: [\n  { include: 'src/legacy/**', options: { bair: true } }\n]\n");
+
+		expect(() => loadConfig(undefined, tempDir)).toThrow(ConfigError);
+		expect(() => loadConfig(undefined, tempDir)).toThrow(`Unknown option "bair" in overrides[0] of ${configFile}`);
+		// @ts-expect-error testing invalid options
+		expect(() => Plugin({ config: false, overrides: [{ options: { bare: true } }] })).toThrow(
+			'Expected overrides[0] in the plugin options to have an include glob',
+		);
+	});
+
+	test('rejects the ast option, which would keep the compiler from returning code', () => {
+		// @ts-expect-error testing invalid options
+		expect(() => Plugin({ config: false, ast: true })).toThrow('Unknown option "ast" in the plugin options');
+	});
+
+	test('reports syntax errors in config files', async () => {
+		await writeFile(join(tempDir, 'coffee.config.cson'), 'bare: true\nheader: [\n');
+
+		expect(() => loadConfig(undefined, tempDir)).toThrow('coffee.config.cson:');
+	});
+
+	test('explicit options take precedence over the config file', async () => {
+		const configFile = join(tempDir, 'coffee.config.cson');
+		const sourceFile = join(tempDir, 'add.coffee');
+		await writeFile(configFile, 'bare: true\nheader: true\n');
+		await writeFile(sourceFile, 'add = (a, b) -> a + b\n');
+
+		const result = await getOnLoadCallback(Plugin({ config: configFile, header: false }))({ path: sourceFile });
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+
+		expect(result.contents).not.toContain('(function()');
+		expect(result.contents).not.toContain('Generated by CoffeeScript');
+	});
+});
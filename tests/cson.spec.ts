@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { expandCson } from '../src/cson.ts';
+import Plugin from '../src/index.ts';
+import { getOnLoadCallback, getRejection, isObjectResult } from './helpers.ts';
+
+const pluginFile = resolve(import.meta.dir, '../src/index.ts');
+
+/**
+ * Writes a `${NAME}` reference, which would otherwise read as a misplaced template literal placeholder
+ */
+function ref(expression: string): string {
+	return `\${${expression}}`;
+}
+
+describe('CSON extensions', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-cson-'));
+		await mkdir(join(tempDir, 'config'));
+		await writeFile(
+			join(tempDir, 'config', 'base.cson'),
+			"server:\n  host: 'localhost'\n  port: 8080\nfeatures: ['search', 'export']\n",
+		);
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	async function load(source: string, options: Parameters<typeof Plugin>[0] = {}) {
+		const csonFile = join(tempDir, 'production.cson');
+		await writeFile(csonFile, source);
+
+		const result = await getOnLoadCallback(Plugin({ config: false, ...options }))({ path: csonFile });
+		if (!isObjectResult(result)) throw new Error('Expected object result');
+
+		return result.exports;
+	}
+
+	test('parses strict CSON by default', async () => {
+		const source = `$include: './config/base.cson'\nhost: '${ref('HOST')}'\n`;
+
+		expect(await load(source)).toEqual({ $include: './config/base.cson', host: ref('HOST') });
+	});
+
+	test('deep-merges included files underneath the including file', async () => {
+		const source = "$include: './config/base.cson'\nserver:\n  port: 80\nfeatures: ['search']\n";
+
+		expect(await load(source, { cson: { include: true } })).toEqual({
+			server: { host: 'localhost', port: 80 },
+			features: ['search'],
+		});
+	});
+
+	test('resolves includes relative to the including file', async () => {
+		await writeFile(join(tempDir, 'config', 'staging.cson'), "$include: 'base.cson'\nserver:\n  host: 'staging'\n");
+		const { value, dependencies } = await expandCson(
+			join(tempDir, 'app.cson'),
+			{ $include: ['./config/staging.cson'], debug: true },
+			{ include: true },
+		);
+
+		expect(value).toEqual({ server: { host: 'staging', port: 8080 }, features: ['search', 'export'], debug: true });
+		expect(dependencies).toEqual([join(tempDir, 'config', 'staging.cson'), join(tempDir, 'config', 'base.cson')]);
+	});
+
+	test('detects circular includes', async () => {
+		await writeFile(join(tempDir, 'config', 'a.cson'), "$include: './b.cson'\n");
+		await writeFile(join(tempDir, 'config', 'b.cson'), "$include: './a.cson'\n");
+
+		const error = await getRejection(load("$include: './config/a.cson'\n", { cson: { include: true } }));
+
+		expect(String(error)).toContain(
+			`Circular $include: ${['production.cson', 'config/a.cson', 'config/b.cson', 'config/a.cson'].map((file) => join(tempDir, file)).join(' -> ')}`,
+		);
+	});
+
+	// HTML routes in Bun.serve need Bun 1.2, like the rest of the plugin
+	test.skipIf(!Bun.semver.satisfies(Bun.version, '>=1.2.0'))(
+		'picks up changes of included files in the dev server once the including file is saved',
+		async () => {
+			await writeFile(join(tempDir, 'bunfig.toml'), '[serve.static]\nplugins = ["./plugin.ts"]\n');
+			await writeFile(
+				join(tempDir, 'plugin.ts'),
+				`import CoffeeScript from ${JSON.stringify(pluginFile)};\nexport default CoffeeScript({ config: false, cson: { include: true } });\n`,
+			);
+			await writeFile(
+				join(tempDir, 'server.ts'),
+				[
+					"import html from './index.html';",
+					"const server = Bun.serve({ port: 0, development: { hmr: true }, routes: { '/': html } });",
+					'console.log(server.url.href);',
+				].join('\n'),
+			);
+			await writeFile(join(tempDir, 'index.html'), '<script type="module" src="./app.coffee"></script>\n');
+			await writeFile(join(tempDir, 'app.coffee'), "import config from './production.cson'\nconsole.log config\n");
+			await writeFile(join(tempDir, 'production.cson'), "$include: './config/base.cson'\n");
+
+			const child = Bun.spawn({ cmd: [process.execPath, 'server.ts'], cwd: tempDir, stderr: 'ignore' });
+
+			/**
+			 * Polls the served bundle until it contains the expected text
+			 */
+			async function waitForBundle(url: URL, expected: string): Promise<void> {
+				for (let attempt = 0; attempt < 300; attempt++) {
+					const html = await (await fetch(url)).text();
+					const script = html.match(/src="([^"]+\.js)"/)?.[1];
+
+					if (script && (await (await fetch(new URL(script, url))).text()).includes(expected)) {
+						return;
+					}
+
+					await Bun.sleep(50);
+				}
+
+				throw new Error(`Timed out waiting for ${expected}`);
+			}
+
+			try {
+				const { value } = await child.stdout.getReader().read();
+				const url = new URL(new TextDecoder().decode(value).trim());
+
+				await waitForBundle(url, 'localhost');
+				await writeFile(join(tempDir, 'config', 'base.cson'), "server:\n  host: 'example.com'\n");
+				await writeFile(join(tempDir, 'production.cson'), "$include: './config/base.cson'\n");
+				await waitForBundle(url, 'example.com');
+			} finally {
+				child.kill();
+				await child.exited;
+			}
+		},
+		20000,
+	);
+
+	test('interpolates environment variables', async () => {
+		const source = `url: 'http://${ref('HOST')}:${ref('PORT:-8080')}/'\nnames: ['${ref('USER:-anonymous')}']\n`;
+
+		expect(await load(source, { cson: { env: { HOST: 'example.com', USER: '' } } })).toEqual({
+			url: 'http://example.com:8080/',
+			names: ['anonymous'],
+		});
+	});
+
+	test('fails on environment variables that are not set', async () => {
+		const error = await getRejection(load(`host: '${ref('HOST')}'\n`, { cson: { env: {} } }));
+
+		expect(String(error)).toContain('environment variable HOST is not set and has no default');
+	});
+});
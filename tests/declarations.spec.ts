@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import Plugin, { createCsonDeclaration, writeCsonDeclarations } from '../src/index.ts';
+import { expectToReject, getOnLoadCallback } from './helpers.ts';
+
+describe('CSON declarations', () => {
+	let tempDir: string;
+	let csonFile: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-cson-dts-'));
+		csonFile = join(tempDir, 'config.cson');
+		await writeFile(
+			csonFile,
+			`
+name: "test-package"
+"display-name": "Test"
+config:
+  enabled: true
+  port: 5432
+  password: null
+  levels: ["debug", "info"]
+  users: [
+    { name: "admin", admin: true }
+    { name: "guest", admin: false }
+  ]
+`,
+		);
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test('infers precise types from CSON data', () => {
+		const declaration = createCsonDeclaration(csonFile, {
+			name: 'test-package',
+			'display-name': 'Test',
+			config: {
+				enabled: true,
+				port: 5432,
+				password: null,
+				levels: ['debug', 'info'],
+				users: [
+					{ name: 'admin', admin: true },
+					{ name: 'guest', admin: false },
+				],
+			},
+		});
+
+		expect(declaration).toBe(
+			[
+				'// Generated by bun-plugin-coffeescript from config.cson, do not edit.',
+				'declare const content: {',
+				'\tname: "test-package";',
+				'\t"display-name": "Test";',
+				'\tconfig: {',
+				'\t\tenabled: true;',
+				'\t\tport: 5432;',
+				'\t\tpassword: null;',
+				'\t\tlevels: ("debug" | "info")[];',
+				'\t\tusers: {',
+				'\t\t\tname: string;',
+				'\t\t\tadmin: boolean;',
+				'\t\t}[];',
+				'\t};',
+				'};',
+				'export default content;',
+				'',
+			].join('\n'),
+		);
+	});
+
+	test('widens arrays with many distinct values', () => {
+		const values = Array.from({ length: 20 }, (_, index) => index);
+
+		expect(createCsonDeclaration(csonFile, values)).toContain('declare const content: number[];');
+		expect(createCsonDeclaration(csonFile, [])).toContain('declare const content: unknown[];');
+	});
+
+	test('writes declarations next to CSON files', async () => {
+		const [result] = await writeCsonDeclarations([csonFile]);
+
+		expect(result).toEqual({ file: csonFile, declarationFile: `${csonFile}.d.ts`, status: 'written' });
+		expect(await readFile(`${csonFile}.d.ts`, 'utf8')).toContain('port: 5432;');
+		expect(await writeCsonDeclarations([csonFile])).toEqual([
+			{ file: csonFile, declarationFile: `${csonFile}.d.ts`, status: 'unchanged' },
+		]);
+	});
+
+	test('fails in check mode when declarations are out of date', async () => {
+		await writeCsonDeclarations([csonFile]);
+		await writeFile(csonFile, 'name: "renamed"\n');
+
+		await expectToReject(writeCsonDeclarations([csonFile], { check: true }));
+		expect(await readFile(`${csonFile}.d.ts`, 'utf8')).toContain('"test-package"');
+	});
+
+	test('writes declarations during the build', async () => {
+		await getOnLoadCallback(Plugin({ declarations: true }))({ path: csonFile });
+
+		expect(await readFile(`${csonFile}.d.ts`, 'utf8')).toContain('"display-name": "Test";');
+	});
+
+	test('fails the build in check mode when declarations are out of date', async () => {
+		await expectToReject(getOnLoadCallback(Plugin({ declarations: { check: true } }))({ path: csonFile }));
+	});
+
+	test('type-checks imports of CSON files', async () => {
+		await writeCsonDeclarations([csonFile]);
+		await writeFile(
+			join(tempDir, 'main.ts'),
+			"import config from './config.cson';\n\nconst port: number = config.config.port;\nconst name: 'other' = config.name;\n",
+		);
+
+		const { exitCode, stdout } = Bun.spawnSync({
+			cmd: [
+				process.execPath,
+				resolve(import.meta.dir, '../node_modules/typescript/bin/tsc'),
+				'--noEmit',
+				'--strict',
+				'--module',
+				'esnext',
+				'--moduleResolution',
+				'bundler',
+				'main.ts',
+			],
+			cwd: tempDir,
+		});
+
+		expect(exitCode).not.toBe(0);
+		expect(stdout.toString()).toContain(`Type '"test-package"' is not assignable to type '"other"'`);
+		expect(stdout.toString()).not.toContain('port');
+	});
+});
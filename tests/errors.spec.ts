@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import Plugin, { CoffeeScriptError } from '../src/index.ts';
+import { getOnLoadCallback, getRejection, isSourceResult } from './helpers.ts';
+
+describe('Diagnostics', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-diag-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test('reports the location of CoffeeScript syntax errors', async () => {
+		const coffeeFile = join(tempDir, 'invalid.coffee');
+		await writeFile(coffeeFile, '\nsquare = (x) -> x * x\nif\n');
+
+		const error = await getRejection(getOnLoadCallback(Plugin())({ path: coffeeFile }));
+
+		if (!(error instanceof CoffeeScriptError)) throw new Error('Expected CoffeeScriptError');
+		expect(error.file).toBe(coffeeFile);
+		expect(error.line).toBe(3);
+		expect(error.column).toBe(1);
+		expect(error.reason).toBe('unexpected if');
+		expect(error.codeFrame).toBe(['  1 | ', '  2 | square = (x) -> x * x', '> 3 | if', '    | ^^'].join('\n'));
+		expect(error.message).toBe(`${coffeeFile}:3:1: unexpected if\n\n${error.codeFrame}`);
+	});
+
+	test('reports the location of CSON syntax errors', async () => {
+		const csonFile = join(tempDir, 'invalid.cson');
+		await writeFile(csonFile, 'name: "test"\nkey: "value\n');
+
+		const error = await getRejection(getOnLoadCallback(Plugin())({ path: csonFile }));
+
+		if (!(error instanceof CoffeeScriptError)) throw new Error('Expected CoffeeScriptError');
+		expect(error.line).toBe(2);
+		expect(error.column).toBe(6);
+		expect(error.reason).toBe('missing "');
+	});
+
+	test('reports the location of invalid CSON values', async () => {
+		const csonFile = join(tempDir, 'call.cson');
+		await writeFile(csonFile, 'a: 1\nb: foo()\n');
+
+		const error = await getRejection(getOnLoadCallback(Plugin())({ path: csonFile }));
+
+		if (!(error instanceof CoffeeScriptError)) throw new Error('Expected CoffeeScriptError');
+		expect(error.line).toBe(2);
+		expect(error.column).toBe(4);
+		expect(error.reason).toBe('Unexpected Call');
+		expect(error.codeFrame).toBe(['  1 | a: 1', '> 2 | b: foo()', '    |    ^'].join('\n'));
+	});
+
+	test('passes other errors through', async () => {
+		const error = await getRejection(getOnLoadCallback(Plugin())({ path: join(tempDir, 'missing.coffee') }));
+
+		expect(error).not.toBeInstanceOf(CoffeeScriptError);
+	});
+
+	test('shows syntax errors in build logs', async () => {
+		const coffeeFile = join(tempDir, 'entry.coffee');
+		await writeFile(coffeeFile, '\nsquare = (x) -> x * x\nif\n');
+
+		const { logs } = await Bun.build({ entrypoints: [coffeeFile], plugins: [Plugin()], throw: false });
+
+		expect(logs).toHaveLength(1);
+		expect(logs[0]?.message).toContain(`${coffeeFile}:3:1: unexpected if`);
+		expect(logs[0]?.message).toContain('> 3 | if');
+	});
+
+	describe('Error modules', () => {
+		const registerFile = resolve(import.meta.dir, '../src/register.ts');
+
+		test('replaces files with errors by a module throwing them', async () => {
+			const coffeeFile = join(tempDir, 'broken.coffee');
+			await writeFile(coffeeFile, 'export square = (x) -> x * x\nexport cube = (x) ->\n  x * (x * x\n');
+
+			const warn = spyOn(console, 'warn').mockImplementation(() => {});
+			const result = await getOnLoadCallback(Plugin({ config: false, errorMode: 'module' }))({ path: coffeeFile });
+			const warnings = warn.mock.calls.map(([message]) => String(message));
+			warn.mockRestore();
+
+			if (!isSourceResult(result)) throw new Error('Expected source result');
+			expect(result.loader).toBe('js');
+			expect(result.contents).toContain('throw error;');
+			expect(result.contents).toContain('export let square, cube;');
+			expect(warnings).toHaveLength(1);
+			expect(warnings[0]).toContain(`${coffeeFile}:3:`);
+		});
+
+		test('still fails on other errors', async () => {
+			const plugin = Plugin({ config: false, errorMode: 'module' });
+			const error = await getRejection(getOnLoadCallback(plugin)({ path: join(tempDir, 'missing.coffee') }));
+
+			expect(error).not.toBeInstanceOf(CoffeeScriptError);
+		});
+
+		test('throws the error when the module is imported', async () => {
+			await writeFile(join(tempDir, 'coffee.config.cson'), "errorMode: 'module'\n");
+			await writeFile(join(tempDir, 'broken.coffee'), 'export square = (x) ->\n  x * (x\n');
+			await writeFile(join(tempDir, 'config.cson'), 'port: [\n');
+			await writeFile(
+				join(tempDir, 'app.ts'),
+				[
+					"console.log('started');",
+					"for (const file of ['./broken.coffee', './config.cson']) {",
+					'\ttry {',
+					'\t\tawait import(file);',
+					'\t} catch (error) {',
+					"\t\tconsole.log(error.name + ' ' + error.file + ':' + error.line);",
+					'\t}',
+					'}',
+				].join('\n'),
+			);
+
+			const { exitCode, stdout, stderr } = Bun.spawnSync({
+				cmd: [process.execPath, 'run', '--preload', registerFile, 'app.ts'],
+				cwd: tempDir,
+			});
+
+			expect(exitCode).toBe(0);
+			expect(stdout.toString().split('\n')).toEqual([
+				'started',
+				`CoffeeScriptError ${join(tempDir, 'broken.coffee')}:2`,
+				`CoffeeScriptError ${join(tempDir, 'config.cson')}:1`,
+				'',
+			]);
+			expect(stderr.toString()).toContain('> 2 |   x * (x');
+		});
+	});
+});
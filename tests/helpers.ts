@@ -0,0 +1,83 @@
+import { expect, mock } from 'bun:test';
+import type { BunPlugin } from 'bun';
+
+// Type definitions for mocking
+export type OnLoadConfig = { filter: RegExp };
+export type OnLoadResultSource = { contents: string; loader: string };
+export type OnLoadResultObject = { exports: unknown; loader: string };
+export type OnLoadResult = OnLoadResultSource | OnLoadResultObject;
+export type OnLoadCallback = (args: { path: string }) => Promise<OnLoadResult>;
+
+/**
+ * Type guard to check if result is a source code result
+ */
+export function isSourceResult(result: OnLoadResult): result is OnLoadResultSource {
+	return 'contents' in result;
+}
+
+/**
+ * Type guard to check if result is an object result
+ */
+export function isObjectResult(result: OnLoadResult): result is OnLoadResultObject {
+	return 'exports' in result;
+}
+
+/**
+ * Helper to test async rejections in Bun 1.0+
+ * Bun 1.0 doesn't support expect().rejects.toThrow(), so we use try-catch
+ */
+export async function expectToReject(promise: Promise<unknown>): Promise<void> {
+	let didThrow = false;
+
+	try {
+		await promise;
+	} catch {
+		didThrow = true;
+	}
+
+	expect(didThrow).toBe(true);
+}
+
+/**
+ * Returns the error a promise rejects with
+ */
+export async function getRejection(promise: Promise<unknown>): Promise<unknown> {
+	try {
+		await promise;
+	} catch (error) {
+		return error;
+	}
+
+	throw new Error('Expected promise to reject');
+}
+
+/**
+ * Extracts the inline source map from compiled output
+ */
+export function readInlineSourceMap(contents: string) {
+	const match = contents.match(/\/\/# sourceMappingURL=data:application\/json;charset=utf-8;base64,(.+)$/m);
+	if (!match?.[1]) throw new Error('No inline source map found');
+
+	return JSON.parse(Buffer.from(match[1], 'base64').toString());
+}
+
+/**
+ * Sets up the plugin against a mock builder and returns its onLoad callback
+ */
+export function getOnLoadCallback(plugin: BunPlugin): OnLoadCallback {
+	let onLoadCallback: OnLoadCallback | undefined;
+
+	const mockBuilder = {
+		onResolve: mock(() => {}),
+		onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
+			onLoadCallback = callback;
+		}),
+	};
+
+	// biome-ignore lint/suspicious/noExplicitAny: Mock builder for testing
+	plugin.setup(mockBuilder as any);
+
+	if (!onLoadCallback) throw new Error('onLoad was not called');
+
+	return onLoadCallback;
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import Plugin from '../src/index.ts';
+import { getOnLoadCallback, isSourceResult } from './helpers.ts';
+
+const pluginFile = resolve(import.meta.dir, '../src/index.ts');
+const hotFile = resolve(import.meta.dir, '../src/hot.ts');
+
+describe('Hot module replacement', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-hmr-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	async function load(fileName: string, source: string, hmr = true): Promise<string> {
+		const path = join(tempDir, fileName);
+		await writeFile(path, source);
+
+		const result = await getOnLoadCallback(Plugin({ config: false, hmr }))({ path });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		return String(result.contents);
+	}
+
+	/**
+	 * Returns the body of a module in a bundle served by Bun's dev server
+	 */
+	function getModule(bundle: string, fileName: string): string {
+		const start = bundle.indexOf(`"${fileName}": [`);
+
+		if (start === -1) throw new Error(`Expected ${fileName} in the bundle`);
+		return bundle.slice(start, bundle.indexOf('}, false]', start));
+	}
+
+	test('accepts updates in the dev server', async () => {
+		await writeFile(join(tempDir, 'bunfig.toml'), '[serve.static]\nplugins = ["./plugin.ts"]\n');
+		await writeFile(
+			join(tempDir, 'plugin.ts'),
+			`import CoffeeScript from ${JSON.stringify(pluginFile)};\nexport default CoffeeScript({ config: false, hmr: true });\n`,
+		);
+		await writeFile(
+			join(tempDir, 'server.ts'),
+			[
+				"import html from './index.html';",
+				"const server = Bun.serve({ port: 0, development: { hmr: true }, routes: { '/': html } });",
+				'console.log(server.url.href);',
+			].join('\n'),
+		);
+		await writeFile(join(tempDir, 'index.html'), '<script type="module" src="./app.coffee"></script>\n');
+		await writeFile(
+			join(tempDir, 'app.coffee'),
+			"import { square } from './math.coffee'\nimport config from './config.cson'\nconsole.log square config.size\n",
+		);
+		await writeFile(join(tempDir, 'math.coffee'), 'export square = (x) -> x * x\n');
+		await writeFile(join(tempDir, 'config.cson'), 'size: 4\n');
+
+		const child = Bun.spawn({ cmd: [process.execPath, 'server.ts'], cwd: tempDir, stderr: 'ignore' });
+
+		try {
+			const { value } = await child.stdout.getReader().read();
+			const url = new URL(new TextDecoder().decode(value).trim());
+			const html = await (await fetch(url)).text();
+			const script = html.match(/src="([^"]+\.js)"/)?.[1];
+
+			if (!script) throw new Error('Expected a script in the served HTML');
+			const bundle = await (await fetch(new URL(script, url))).text();
+
+			expect(getModule(bundle, 'math.coffee')).toContain('hmr.accept()');
+			expect(getModule(bundle, 'config.cson')).toContain('hmr.accept()');
+			expect(getModule(bundle, 'config.cson')).toContain('size: export$0');
+			expect(getModule(bundle, 'app.coffee')).not.toContain('accept');
+		} finally {
+			child.kill();
+			await child.exited;
+		}
+	}, 20000);
+
+	test('accepts updates of modules that only declare things', async () => {
+		const contents = await load(
+			'math.coffee',
+			"import { PI } from './constants'\nexport class Circle\n  constructor: (@r) ->\n  area: -> PI * @r ** 2\nexport square = (x) -> x * x\nexport default { square }\n",
+		);
+
+		expect(contents).toEndWith('\nif (import.meta.hot) {\n\timport.meta.hot.accept();\n}\n');
+	});
+
+	test.each([
+		['top-level calls', "export square = (x) -> x * x\nconsole.log 'loaded'\n"],
+		['calls in values', 'export now = Date.now()\n'],
+		['assignments to properties', 'export square = (x) -> x * x\nwindow.square = square\n'],
+		['no exports', 'square = (x) -> x * x\n'],
+	])('does not accept updates of modules with %s', async (_name, source) => {
+		expect(await load('app.coffee', source)).not.toContain('import.meta.hot');
+	});
+
+	test('does not accept updates without the option', async () => {
+		expect(await load('math.coffee', 'export square = (x) -> x * x\n', false)).not.toContain('import.meta.hot');
+	});
+
+	test('replaces the data of CSON modules in place and notifies subscribers', async () => {
+		const hot = { data: {}, accept: mock(() => {}) };
+		const { subscribe } = await import(hotFile);
+
+		/**
+		 * Evaluates a CSON module like the dev server does, sharing the hot data between versions
+		 */
+		async function evaluate(source: string, version: number) {
+			const contents = await load('config.cson', source);
+			const moduleFile = join(tempDir, `config.${version}.mjs`);
+			await writeFile(moduleFile, contents.replace(/import\.meta\.hot/g, 'globalThis.hot'));
+
+			return import(moduleFile);
+		}
+
+		Object.assign(globalThis, { hot });
+
+		try {
+			const first = await evaluate('size: 4\nname: "app"\n', 1);
+			const callback = mock((_data: unknown) => {});
+			subscribe(first.default, callback);
+
+			expect(first.default).toEqual({ size: 4, name: 'app' });
+			expect(first.name).toBe('app');
+
+			const second = await evaluate('size: 8\n', 2);
+
+			expect(second.default).toBe(first.default);
+			expect(second.default).toEqual({ size: 8 });
+			expect(second.size).toBe(8);
+			expect(callback.mock.calls).toEqual([[{ size: 8 }]]);
+			expect(hot.accept).toHaveBeenCalledTimes(2);
+		} finally {
+			Reflect.deleteProperty(globalThis, 'hot');
+		}
+	});
+
+	test('does not accept updates of CSON modules without an object or array', async () => {
+		expect(await load('version.cson', '42\n')).toBe('export default 42;\n');
+	});
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { findCoffeeScriptBlocks, rewriteHtml } from '../src/html.ts';
+import Plugin from '../src/index.ts';
+
+describe('HTML entrypoints', () => {
+	let tempDir: string;
+	let htmlFile: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-html-'));
+		htmlFile = join(tempDir, 'index.html');
+		await writeFile(join(tempDir, 'greet.coffee'), 'export greet = (name) -> console.log "Hello #{name}"\n');
+		await writeFile(join(tempDir, 'widget.coffee'), "console.log 'widget ' + [1..3].join ','\n");
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Bundles the HTML file and returns the build result together with the contents of all outputs
+	 */
+	async function bundle(html: string) {
+		await writeFile(htmlFile, html);
+
+		const result = await Bun.build({ entrypoints: [htmlFile], plugins: [Plugin({ config: false })], throw: false });
+		const outputs = await Promise.all(result.outputs.map((output) => output.text()));
+
+		return { ...result, html: outputs.find((output) => output.includes('<html')), js: outputs.join('\n') };
+	}
+
+	test('compiles inline CoffeeScript blocks', async () => {
+		const { success, html, js } = await bundle(
+			[
+				'<!doctype html>',
+				'<html>',
+				'<body>',
+				'\t<script type="text/coffeescript">',
+				"\t\timport { greet } from './greet.coffee'",
+				"\t\tgreet 'World'",
+				'\t</script>',
+				'</body>',
+				'</html>',
+			].join('\n'),
+		);
+
+		expect(success).toBe(true);
+		expect(html).not.toContain('text/coffeescript');
+		expect(js).toContain('console.log(`Hello ');
+		expect(js).toContain('greet("World")');
+	});
+
+	test('compiles scripts loading CoffeeScript files', async () => {
+		const { success, html, js } = await bundle(
+			'<!doctype html>\n<html>\n<head>\n<script type="text/coffeescript" src="./widget.coffee"></script>\n</head>\n</html>\n',
+		);
+
+		expect(success).toBe(true);
+		expect(html).not.toContain('widget.coffee');
+		expect(js).toContain('console.log("widget " + [1, 2, 3].join(","))');
+	});
+
+	test('reports errors at their line in the HTML file', async () => {
+		const { success, logs } = await bundle(
+			[
+				'<html>',
+				'<body>',
+				'<script type="text/coffeescript">',
+				"\tgreeting = 'Hello'",
+				'\tgreet = )',
+				'</script>',
+				'</body>',
+				'</html>',
+			].join('\n'),
+		);
+
+		expect(success).toBe(false);
+		expect(logs.map(({ message }) => message).join('\n')).toContain(`${htmlFile}:5:10: unmatched )`);
+	});
+
+	test('rewrites CoffeeScript into module scripts', () => {
+		const html = [
+			'<script src="app.coffee"></script>',
+			'<script type="text/coffeescript" defer>alert 1</script>',
+			'<script>alert(2)</script>',
+			"<script type='text/coffeescript'>alert 3</script>",
+		].join('\n');
+
+		expect(rewriteHtml('/www/index.html', html)).toBe(
+			[
+				'<script src="app.coffee" type="module"></script>',
+				'<script defer type="module" src="./index.html?coffee-inline=0"></script>',
+				'<script>alert(2)</script>',
+				'<script type="module" src="./index.html?coffee-inline=1"></script>',
+			].join('\n'),
+		);
+		expect(findCoffeeScriptBlocks(html)).toEqual([
+			{ source: 'alert 1', line: 1, column: 39 },
+			{ source: 'alert 3', line: 3, column: 33 },
+		]);
+	});
+});
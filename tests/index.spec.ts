@@ -3,43 +3,14 @@ import { mkdtemp, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import Plugin from '../src/index.ts';
-
-// Type definitions for mocking
-type OnLoadConfig = { filter: RegExp };
-type OnLoadResultSource = { contents: string; loader: string };
-type OnLoadResultObject = { exports: unknown; loader: string };
-type OnLoadResult = OnLoadResultSource | OnLoadResultObject;
-type OnLoadCallback = (args: { path: string }) => Promise<OnLoadResult>;
-
-/**
- * Type guard to check if result is a source code result
- */
-function isSourceResult(result: OnLoadResult): result is OnLoadResultSource {
-	return 'contents' in result;
-}
-
-/**
- * Type guard to check if result is an object result
- */
-function isObjectResult(result: OnLoadResult): result is OnLoadResultObject {
-	return 'exports' in result;
-}
-
-/**
- * Helper to test async rejections in Bun 1.0+
- * Bun 1.0 doesn't support expect().rejects.toThrow(), so we use try-catch
- */
-async function expectToReject(promise: Promise<unknown>): Promise<void> {
-	let didThrow = false;
-
-	try {
-		await promise;
-	} catch {
-		didThrow = true;
-	}
-
-	expect(didThrow).toBe(true);
-}
+import {
+	expectToReject,
+	getOnLoadCallback,
+	isObjectResult,
+	isSourceResult,
+	type OnLoadCallback,
+	type OnLoadConfig,
+} from './helpers.ts';
 
 describe('bun-plugin-coffeescript', () => {
 	describe('Plugin export', () => {
@@ -81,6 +52,7 @@ console.log square 5
 
 			const plugin = Plugin();
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((config: OnLoadConfig, _callback: OnLoadCallback) => {
 					expect(config.filter).toBeInstanceOf(RegExp);
 					expect(config.filter.test('test.coffee')).toBe(true);
@@ -95,6 +67,7 @@ console.log square 5
 		test('compiles .litcoffee files', async () => {
 			const plugin = Plugin();
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((config: OnLoadConfig, _callback: OnLoadCallback) => {
 					expect(config.filter.test('test.litcoffee')).toBe(true);
 				}),
@@ -114,6 +87,7 @@ console.log square 5
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -151,6 +125,7 @@ dog.speak()
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -195,6 +170,7 @@ dog.speak()
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -223,6 +199,7 @@ dog.speak()
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -249,6 +226,7 @@ dog.speak()
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -272,6 +250,7 @@ dog.speak()
 			let filterRegex: RegExp | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((config: OnLoadConfig, _callback: OnLoadCallback) => {
 					filterRegex = config.filter;
 				}),
@@ -291,6 +270,7 @@ dog.speak()
 			let filterRegex: RegExp | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((config: OnLoadConfig, _callback: OnLoadCallback) => {
 					filterRegex = config.filter;
 				}),
@@ -309,6 +289,7 @@ dog.speak()
 			let filterRegex: RegExp | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((config: OnLoadConfig, _callback: OnLoadCallback) => {
 					filterRegex = config.filter;
 				}),
@@ -341,6 +322,7 @@ dog.speak()
 			let filterRegex: RegExp | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((config: OnLoadConfig, _callback: OnLoadCallback) => {
 					filterRegex = config.filter;
 				}),
@@ -374,6 +356,7 @@ More documentation here.
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -390,6 +373,60 @@ More documentation here.
 			expect(result.loader).toBe('js');
 			expect(result.contents).toContain('square');
 		});
+
+		test('matches .coffee.md files in filter', () => {
+			const plugin = Plugin();
+			let filterRegex: RegExp | undefined;
+
+			const mockBuilder = {
+				onResolve: mock(() => {}),
+				onLoad: mock((config: OnLoadConfig, _callback: OnLoadCallback) => {
+					filterRegex = config.filter;
+				}),
+			};
+
+			// biome-ignore lint/suspicious/noExplicitAny: Mock builder for testing
+			plugin.setup(mockBuilder as any);
+
+			if (!filterRegex) throw new Error('onLoad was not called');
+			expect(filterRegex.test('example.coffee.md')).toBe(true);
+			expect(filterRegex.test('docs/README.md')).toBe(false);
+		});
+
+		test('detects literate mode from the file extension', async () => {
+			const litcoffeeFile = join(tempDir, 'example.litcoffee');
+			const coffeeMdFile = join(tempDir, 'example.coffee.md');
+			const coffeeFile = join(tempDir, 'example.coffee');
+			const literateSource = `# Introduction
+
+Cubes a number.
+
+    cube = (x) -> x * x * x
+`;
+			await writeFile(litcoffeeFile, literateSource);
+			await writeFile(coffeeMdFile, literateSource);
+			await writeFile(coffeeFile, 'cube = (x) -> x * x * x\n');
+
+			const onLoadCallback = getOnLoadCallback(Plugin());
+
+			for (const path of [litcoffeeFile, coffeeMdFile, coffeeFile]) {
+				const result = await onLoadCallback({ path });
+
+				if (!isSourceResult(result)) throw new Error('Expected source result');
+				expect(result.contents).toContain('cube = function(x)');
+				expect(result.contents).not.toContain('Cubes(');
+			}
+		});
+
+		test('compiles plain .coffee files when literate option is set', async () => {
+			const coffeeFile = join(tempDir, 'plain.coffee');
+			await writeFile(coffeeFile, 'square = (x) -> x * x\n');
+
+			const result = await getOnLoadCallback(Plugin({ literate: true }))({ path: coffeeFile });
+
+			if (!isSourceResult(result)) throw new Error('Expected source result');
+			expect(result.contents).toContain('square = function(x)');
+		});
 	});
 
 	describe('CSON support', () => {
@@ -408,6 +445,7 @@ More documentation here.
 			let filterRegex: RegExp | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((config: OnLoadConfig, _callback: OnLoadCallback) => {
 					filterRegex = config.filter;
 				}),
@@ -443,6 +481,7 @@ config:
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -482,6 +521,7 @@ boolean: true
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -520,6 +560,7 @@ database:
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -552,6 +593,7 @@ database:
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -580,6 +622,7 @@ missing closing quote
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -616,6 +659,7 @@ if
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -636,6 +680,7 @@ if
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -673,6 +718,7 @@ result = add 2, 3
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -700,6 +746,7 @@ result = add 2, 3
 			let onLoadCallback: OnLoadCallback | undefined;
 
 			const mockBuilder = {
+				onResolve: mock(() => {}),
 				onLoad: mock((_config: OnLoadConfig, callback: OnLoadCallback) => {
 					onLoadCallback = callback;
 				}),
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { writeCoffeeScriptDeclarations } from '../src/index.ts';
+import { expectToReject } from './helpers.ts';
+
+describe('CoffeeScript declarations', () => {
+	let tempDir: string;
+	let mathFile: string;
+	let helperFile: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-jsdoc-'));
+		mathFile = join(tempDir, 'math.coffee');
+		helperFile = join(tempDir, 'helper.coffee');
+		await writeFile(helperFile, '###*\n# @param {number} x\n# @returns {number}\n###\nexport double = (x) -> x * 2\n');
+		await writeFile(
+			mathFile,
+			[
+				"import { double } from './helper.coffee'",
+				'',
+				'###*',
+				'# Squares a number.',
+				'# @param {number} x',
+				'###',
+				'export square = (x) -> double(x) * x / 2',
+				'',
+				'export cube = (x) -> x * x * x',
+				'',
+				'###* @type {string} ###',
+				"export name = 'math'",
+				'',
+			].join('\n'),
+		);
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test('emits declarations from JSDoc annotations', async () => {
+		await writeCoffeeScriptDeclarations([mathFile, helperFile]);
+
+		const declaration = await readFile(`${mathFile}.d.ts`, 'utf8');
+
+		expect(declaration).toStartWith('// Generated by bun-plugin-coffeescript from math.coffee, do not edit.\n');
+		expect(declaration).toContain('export function square(x: number): number;');
+		expect(declaration).toContain('export function cube(x: any): number;');
+		expect(declaration).toContain('export const name: string;');
+		expect(await readFile(`${helperFile}.d.ts`, 'utf8')).toContain('export function double(x: number): number;');
+	});
+
+	test('reports exports without annotations', async () => {
+		const results = await writeCoffeeScriptDeclarations([mathFile, helperFile]);
+
+		expect(results.map(({ unannotated }) => unannotated)).toEqual([['cube'], []]);
+	});
+
+	test('writes declarations to a types directory', async () => {
+		const typesDir = join(tempDir, 'types');
+
+		const [result] = await writeCoffeeScriptDeclarations([mathFile], { outDir: typesDir, rootDir: tempDir });
+
+		expect(result?.declarationFile).toBe(join(typesDir, 'math.coffee.d.ts'));
+		expect(await Bun.file(join(typesDir, 'math.coffee.d.ts')).exists()).toBe(true);
+		expect(await Bun.file(`${mathFile}.d.ts`).exists()).toBe(false);
+	});
+
+	test('fails in check mode when declarations are out of date', async () => {
+		await writeCoffeeScriptDeclarations([helperFile]);
+
+		expect(await writeCoffeeScriptDeclarations([helperFile], { check: true })).toHaveLength(1);
+		await expectToReject(writeCoffeeScriptDeclarations([mathFile], { check: true }));
+		expect(await Bun.file(`${mathFile}.d.ts`).exists()).toBe(false);
+	});
+
+	test('type-checks imports of CoffeeScript modules', async () => {
+		await writeCoffeeScriptDeclarations([mathFile, helperFile]);
+		await writeFile(
+			join(tempDir, 'main.ts'),
+			"import { name, square } from './math.coffee';\n\nconst area: number = square(3);\nsquare(name);\n",
+		);
+
+		// tsc takes several seconds to start, so it runs asynchronously with a generous timeout
+		const child = Bun.spawn({
+			cmd: [
+				process.execPath,
+				resolve(import.meta.dir, '../node_modules/typescript/bin/tsc'),
+				'--noEmit',
+				'--strict',
+				'--module',
+				'esnext',
+				'--moduleResolution',
+				'bundler',
+				'main.ts',
+			],
+			cwd: tempDir,
+		});
+		const [exitCode, stdout] = await Promise.all([child.exited, new Response(child.stdout).text()]);
+
+		expect(exitCode).not.toBe(0);
+		expect(stdout).toContain("Argument of type 'string' is not assignable to parameter of type 'number'");
+		expect(stdout).not.toContain('area');
+	}, 60000);
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { type PluginOptions } from '../src/index.ts';
+import { getOnLoadCallback } from './helpers.ts';
+
+describe('JSX', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-jsx-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Writes a file to the temporary directory and returns the loader the plugin picks for it
+	 */
+	async function getLoader(fileName: string, source: string, options: PluginOptions = {}): Promise<string> {
+		const path = join(tempDir, fileName);
+		await writeFile(path, source);
+
+		return (await getOnLoadCallback(Plugin({ config: false, ...options }))({ path })).loader;
+	}
+
+	test('detects JSX', async () => {
+		expect(await getLoader('greeting.coffee', 'export default -> <h1>Hello</h1>\n')).toBe('jsx');
+	});
+
+	test('does not mistake comparisons and strings for JSX', async () => {
+		expect(await getLoader('compare.coffee', "export default (a, b) -> a < b and b > 0 and '<h1>'\n")).toBe('js');
+	});
+
+	test('detects JSX in Literate CoffeeScript', async () => {
+		expect(await getLoader('greeting.litcoffee', 'A heading:\n\n    export default -> <h1>Hello</h1>\n')).toBe('jsx');
+	});
+
+	test('uses the jsx loader for .cjsx files', async () => {
+		expect(await getLoader('legacy.cjsx', 'export default -> null\n')).toBe('jsx');
+	});
+
+	test('can be forced on or off', async () => {
+		expect(await getLoader('plain.coffee', 'export default -> null\n', { jsx: true })).toBe('jsx');
+		expect(await getLoader('greeting.coffee', 'export default -> <h1>Hello</h1>\n', { jsx: false })).toBe('js');
+		expect(await getLoader('pragma.coffee', '# @coffee jsx: true\nexport default -> null\n')).toBe('jsx');
+	});
+
+	test('bundles a CoffeeScript component', async () => {
+		const componentFile = join(tempDir, 'greeting.coffee');
+		await writeFile(componentFile, 'export Greeting = ({ name }) -> <h1 className="greeting">Hello {name}</h1>\n');
+
+		const { outputs, success } = await Bun.build({
+			entrypoints: [componentFile],
+			external: ['react'],
+			plugins: [Plugin({ config: false })],
+			throw: false,
+		});
+
+		expect(success).toBe(true);
+
+		const bundle = await outputs[0]?.text();
+
+		expect(bundle).toContain('react/jsx-dev-runtime');
+		expect(bundle).toContain('className: "greeting"');
+		expect(bundle).not.toContain('<h1');
+	});
+});
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { LintError, type LintOptions, type LintRule, type PluginOptions } from '../src/index.ts';
+import { getOnLoadCallback, getRejection } from './helpers.ts';
+
+/**
+ * A file breaking a rule, with the locations and messages of the expected warnings
+ */
+const fixtures: Record<LintRule, { source: string; warnings: string[] }> = {
+	shadow: {
+		source: [
+			'total = 0',
+			'add = (total, { count }) ->',
+			'  total + count',
+			'count = 1',
+			'add total, { count }',
+			'',
+		].join('\n'),
+		warnings: ['2:8: parameter "total" shadows a variable of an enclosing scope (shadow)'],
+	},
+	'unused-assignment': {
+		source: [
+			'config = load()',
+			'render = (items) ->',
+			'  first = items[0]',
+			'  { length, rest } = items',
+			'  _skipped = 1',
+			'  length',
+			'export version = 1',
+			'render config',
+			'',
+		].join('\n'),
+		warnings: [
+			'3:3: "first" is assigned but never used (unused-assignment)',
+			'4:13: "rest" is assigned but never used (unused-assignment)',
+		],
+	},
+	'loose-equality': {
+		source: ['a = 1', 'console.log a == 1, a is 1, a != 2, a isnt 2', ''].join('\n'),
+		warnings: [
+			'2:13: "==" compiles to a strict comparison, write "is" to make that explicit (loose-equality)',
+			'2:29: "!=" compiles to a strict comparison, write "isnt" to make that explicit (loose-equality)',
+		],
+	},
+	'constructor-return': {
+		source: [
+			'class Point',
+			'  constructor: (@x, @y) ->',
+			'    { @x, @y }',
+			'class Counter',
+			'  constructor: ->',
+			'    @count = 0',
+			'    @reset()',
+			'  reset: -> @count = 0',
+			'new Point(1, 2)',
+			'new Counter()',
+			'',
+		].join('\n'),
+		warnings: [
+			'3:5: the last expression of a constructor is not returned, constructors always return the instance (constructor-return)',
+		],
+	},
+};
+
+describe('Lint', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-lint-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Loads a file and returns the warnings logged, without the path of the file
+	 */
+	async function getWarnings(source: string, options: PluginOptions): Promise<string[]> {
+		const coffeeFile = join(tempDir, 'app.coffee');
+		await writeFile(coffeeFile, source);
+		const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+		try {
+			await getOnLoadCallback(Plugin({ config: false, ...options }))({ path: coffeeFile });
+
+			return warn.mock.calls.map(([message]) => String(message).replace(`${coffeeFile}:`, ''));
+		} finally {
+			warn.mockRestore();
+		}
+	}
+
+	test.each(Object.entries(fixtures))('reports the %s rule', async (_rule, { source, warnings }) => {
+		expect(await getWarnings(source, { lint: true })).toEqual(warnings);
+	});
+
+	test('treats the parameters of do as uses of the variables they are passed', async () => {
+		const source = [
+			'x = 1',
+			'do (x) -> console.log x',
+			'y = 2',
+			'do log = (y) -> console.log y',
+			'count = 1',
+			'do (count = 2) -> console.log count',
+			'log count',
+			'',
+		].join('\n');
+
+		expect(await getWarnings(source, { lint: true })).toEqual([
+			'6:5: parameter "count" shadows a variable of an enclosing scope (shadow)',
+		]);
+	});
+
+	test('does not lint by default', async () => {
+		expect(await getWarnings(fixtures.shadow.source, {})).toEqual([]);
+	});
+
+	test('turns rules off', async () => {
+		const { source } = fixtures['loose-equality'];
+
+		expect(await getWarnings(source, { lint: { 'loose-equality': 'off' } })).toEqual([]);
+	});
+
+	test('fails on rules set to error, after logging the warnings', async () => {
+		const coffeeFile = join(tempDir, 'app.coffee');
+		await writeFile(coffeeFile, `${fixtures.shadow.source}console.log total == 1\n`);
+		const lint: LintOptions = { shadow: 'error' };
+		const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+		const error = await getRejection(getOnLoadCallback(Plugin({ config: false, lint }))({ path: coffeeFile }));
+		const warnings = warn.mock.calls.map(([message]) => String(message));
+		warn.mockRestore();
+
+		if (!(error instanceof LintError)) throw new Error('Expected LintError');
+		expect(error.file).toBe(coffeeFile);
+		expect(error.diagnostics).toEqual([
+			{
+				rule: 'shadow',
+				severity: 'error',
+				message: 'parameter "total" shadows a variable of an enclosing scope',
+				line: 2,
+				column: 8,
+			},
+		]);
+		expect(error.message).toBe(
+			`${coffeeFile} has lint errors:\n  2:8: parameter "total" shadows a variable of an enclosing scope (shadow)`,
+		);
+		expect(warnings).toEqual([
+			`${coffeeFile}:6:13: "==" compiles to a strict comparison, write "is" to make that explicit (loose-equality)`,
+		]);
+	});
+
+	test('skips rules disabled by comments', async () => {
+		const source = [
+			'a = 1',
+			'console.log a == 1 # lint-disable-line loose-equality',
+			'# lint-disable-next-line',
+			'console.log a == 2',
+			'# lint-disable loose-equality, shadow',
+			'console.log a == 3',
+			'# lint-enable loose-equality',
+			'console.log a == 4',
+			'',
+		].join('\n');
+
+		expect(await getWarnings(source, { lint: true })).toEqual([
+			'8:13: "==" compiles to a strict comparison, write "is" to make that explicit (loose-equality)',
+		]);
+	});
+
+	test('reports syntax errors rather than lint problems', async () => {
+		const coffeeFile = join(tempDir, 'app.coffee');
+		await writeFile(coffeeFile, 'a = 1\nif\n');
+
+		const error = await getRejection(
+			getOnLoadCallback(Plugin({ config: false, lint: { 'unused-assignment': 'error' } }))({ path: coffeeFile }),
+		);
+
+		expect(error).not.toBeInstanceOf(LintError);
+		expect((error as Error).name).toBe('CoffeeScriptError');
+	});
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { CoffeeScriptError } from '../src/index.ts';
+import { getOnLoadCallback, getRejection, isObjectResult } from './helpers.ts';
+
+describe('Macros', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-macro-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test('evaluates .macro.coffee modules and returns their exports as data', async () => {
+		const macroFile = join(tempDir, 'table.macro.coffee');
+		await writeFile(join(tempDir, 'size.js'), 'export const size = 4;\n');
+		await writeFile(
+			macroFile,
+			[
+				"import { size } from './size.js'",
+				"import { basename } from 'node:path'",
+				'',
+				'export squares = (i * i for i in [0...size])',
+				'export name = basename import.meta.path',
+				"export version = Promise.resolve '1.2.3'",
+			].join('\n'),
+		);
+
+		const result = await getOnLoadCallback(Plugin({ config: false }))({ path: macroFile });
+
+		if (!isObjectResult(result)) throw new Error('Expected object result');
+		expect(result.loader).toBe('object');
+		expect(result.exports).toMatchObject({ squares: [0, 1, 4, 9], version: '1.2.3' });
+	});
+
+	test('evaluates macros with the same name at the same time', async () => {
+		await mkdir(join(tempDir, 'a'));
+		await mkdir(join(tempDir, 'b'));
+		await writeFile(join(tempDir, 'a', 'name.macro.coffee'), "export name = 'a'\n");
+		await writeFile(join(tempDir, 'b', 'name.macro.coffee'), "export name = 'b'\n");
+		const onLoad = getOnLoadCallback(Plugin({ config: false }));
+
+		const results = await Promise.all(
+			['a', 'b'].map((dir) => onLoad({ path: join(tempDir, dir, 'name.macro.coffee') })),
+		);
+
+		expect(results.map((result) => (isObjectResult(result) ? result.exports : undefined))).toEqual([
+			{ name: 'a' },
+			{ name: 'b' },
+		]);
+	});
+
+	test('inlines macros imported with the macro attribute', async () => {
+		await writeFile(join(tempDir, 'git.coffee'), "export sha = ['abc', 'def'].join ''\n");
+		await writeFile(
+			join(tempDir, 'app.coffee'),
+			"import { sha } from './git' assert { type: 'macro' }\n\nconsole.log sha\n",
+		);
+
+		const result = await Bun.build({
+			entrypoints: [join(tempDir, 'app.coffee')],
+			plugins: [Plugin({ config: false })],
+		});
+		const output = await result.outputs[0]?.text();
+
+		expect(result.success).toBe(true);
+		expect(output).toContain('"abcdef"');
+		expect(output).not.toContain('join');
+	});
+
+	test('reports errors with the location in the macro', async () => {
+		const macroFile = join(tempDir, 'broken.macro.coffee');
+		await writeFile(macroFile, "answer = 42\n\nthrow new Error 'no git repository'\n");
+
+		const error = await getRejection(getOnLoadCallback(Plugin({ config: false }))({ path: macroFile }));
+
+		expect(error).toBeInstanceOf(CoffeeScriptError);
+		expect(error).toMatchObject({ file: macroFile, line: 3, reason: 'Error in macro: no git repository' });
+	});
+
+	test('rejects exports that are not serialisable', async () => {
+		const macroFile = join(tempDir, 'function.macro.coffee');
+		await writeFile(macroFile, 'export square = (x) -> x * x\n');
+
+		const error = await getRejection(getOnLoadCallback(Plugin({ config: false }))({ path: macroFile }));
+
+		expect(String(error)).toContain('the macro export "square" is not serialisable');
+	});
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { CoffeeScriptError } from '../src/index.ts';
+import { getOnLoadCallback, getRejection, isSourceResult } from './helpers.ts';
+
+describe('Per-file options', () => {
+	let tempDir: string;
+	let legacyFile: string;
+	let moduleFile: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-overrides-'));
+		await mkdir(join(tempDir, 'legacy'));
+		legacyFile = join(tempDir, 'legacy', 'script.coffee');
+		moduleFile = join(tempDir, 'module.coffee');
+		await writeFile(legacyFile, 'add = (a, b) -> a + b\n');
+		await writeFile(moduleFile, 'add = (a, b) -> a + b\n');
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Compiles a file with the given plugin and returns the JavaScript
+	 */
+	async function compileWith(plugin: ReturnType<typeof Plugin>, path: string): Promise<string> {
+		const result = await getOnLoadCallback(plugin)({ path });
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+
+		return result.contents;
+	}
+
+	test('applies overrides to matching files only', async () => {
+		const plugin = Plugin({ bare: true, overrides: [{ include: `${tempDir}/legacy/**`, options: { bare: false } }] });
+
+		expect(await compileWith(plugin, legacyFile)).toContain('(function()');
+		expect(await compileWith(plugin, moduleFile)).not.toContain('(function()');
+	});
+
+	test('matches overrides by directory', async () => {
+		const plugin = Plugin({ overrides: [{ include: join(tempDir, 'legacy'), options: { header: true } }] });
+
+		expect(await compileWith(plugin, legacyFile)).toContain('Generated by CoffeeScript');
+		expect(await compileWith(plugin, moduleFile)).not.toContain('Generated by CoffeeScript');
+	});
+
+	test('merges overrides in order', async () => {
+		const plugin = Plugin({
+			overrides: [
+				{ include: `${tempDir}/**`, options: { bare: true, header: true } },
+				{ include: `${tempDir}/legacy/**`, options: { bare: false } },
+			],
+		});
+
+		const contents = await compileWith(plugin, legacyFile);
+
+		expect(contents).toContain('Generated by CoffeeScript');
+		expect(contents).toContain('(function()');
+	});
+
+	test('lets pragmas take precedence over overrides', async () => {
+		await writeFile(legacyFile, '#!/usr/bin/env coffee\n# @coffee bare: true\n\nadd = (a, b) -> a + b\n');
+
+		const plugin = Plugin({ overrides: [{ include: `${tempDir}/legacy/**`, options: { bare: false } }] });
+
+		expect(await compileWith(plugin, legacyFile)).not.toContain('(function()');
+	});
+
+	test('merges several pragmas', async () => {
+		await writeFile(
+			moduleFile,
+			'# Adds numbers\n# @coffee bare: true\n# @coffee header: true\nadd = (a, b) -> a + b\n',
+		);
+
+		const contents = await compileWith(Plugin(), moduleFile);
+
+		expect(contents).toContain('Generated by CoffeeScript');
+		expect(contents).not.toContain('(function()');
+	});
+
+	test('ignores pragmas after the header', async () => {
+		await writeFile(moduleFile, 'add = (a, b) -> a + b\n# @coffee bare: true\n');
+
+		expect(await compileWith(Plugin(), moduleFile)).toContain('(function()');
+	});
+
+	test('reports invalid pragmas', async () => {
+		await writeFile(moduleFile, '# License: MIT\n# @coffee bare\nadd = (a, b) -> a + b\n');
+
+		let error: unknown;
+
+		try {
+			await compileWith(Plugin(), moduleFile);
+		} catch (caught) {
+			error = caught;
+		}
+
+		if (!(error instanceof CoffeeScriptError)) throw new Error('Expected CoffeeScriptError');
+		expect(error.line).toBe(2);
+		expect(error.column).toBe(3);
+	});
+
+	test('rejects pragmas setting plugin or unknown options', async () => {
+		await writeFile(moduleFile, "# @coffee bare: true, compiler: 'coffee-script'\nadd = (a, b) -> a + b\n");
+
+		const error = await getRejection(compileWith(Plugin({ config: false }), moduleFile));
+
+		if (!(error instanceof CoffeeScriptError)) throw new Error('Expected CoffeeScriptError');
+		expect(error.file).toBe(moduleFile);
+		expect(error.message).toContain(`${moduleFile}:1:23: unknown @coffee pragma option "compiler"`);
+	});
+
+	test('rejects pragmas changing what the compiler returns', async () => {
+		await writeFile(moduleFile, '# A module\n# @coffee ast: true\nadd = (a, b) -> a + b\n');
+
+		const error = await getRejection(compileWith(Plugin({ config: false }), moduleFile));
+
+		if (!(error instanceof CoffeeScriptError)) throw new Error('Expected CoffeeScriptError');
+		expect(error.line).toBe(2);
+		expect(error.column).toBe(11);
+		expect(error.reason).toBe('unknown @coffee pragma option "ast", pragmas can set bare, header, transpile, jsx');
+	});
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+
+const registerFile = resolve(import.meta.dir, '../src/register.ts');
+
+describe('Runtime registration', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-register-'));
+		await writeFile(join(tempDir, 'lib.coffee'), 'export square = (x) -> x * x\n');
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Runs Bun in the temporary directory with the register entry preloaded
+	 */
+	function runBun(...args: string[]) {
+		const { exitCode, stdout, stderr } = Bun.spawnSync({
+			cmd: [process.execPath, ...args.slice(0, 1), '--preload', registerFile, ...args.slice(1)],
+			cwd: tempDir,
+		});
+
+		return { exitCode, stdout: stdout.toString(), stderr: stderr.toString() };
+	}
+
+	test('runs CoffeeScript entrypoints', async () => {
+		await writeFile(join(tempDir, 'app.coffee'), "import { square } from './lib'\nconsole.log square 4\n");
+
+		const { exitCode, stdout } = runBun('run', 'app.coffee');
+
+		expect(exitCode).toBe(0);
+		expect(stdout.trim()).toBe('16');
+	});
+
+	test('runs CoffeeScript tests', async () => {
+		await writeFile(
+			join(tempDir, 'math.spec.coffee'),
+			"import { expect, test } from 'bun:test'\nimport { square } from './lib'\n\ntest 'squares', ->\n  expect(square 3).toBe 9\n",
+		);
+		await writeFile(join(tempDir, 'math.spec.ts'), "import './math.spec.coffee';\n");
+
+		const { exitCode, stderr } = runBun('test');
+
+		expect(exitCode).toBe(0);
+		expect(stderr).toContain('1 pass');
+	});
+
+	test('leaves HTML imports to Bun', async () => {
+		await writeFile(join(tempDir, 'index.html'), '<!doctype html>\n<h1>Hello</h1>\n');
+		await writeFile(join(tempDir, 'server.ts'), "import page from './index.html';\nconsole.log(typeof page);\n");
+
+		const { exitCode, stdout } = runBun('run', 'server.ts');
+
+		expect(exitCode).toBe(0);
+		expect(stdout.trim()).toBe('object');
+	});
+
+	test('reads options from package.json', async () => {
+		await writeFile(
+			join(tempDir, 'package.json'),
+			JSON.stringify({ coffeescript: { sourcemap: 'inline', stackTraces: true } }),
+		);
+		await writeFile(
+			join(tempDir, 'app.coffee'),
+			"export fail = ->\n  throw new Error 'boom'\n\ntry\n  fail()\ncatch error\n  console.log error.stack\n",
+		);
+
+		const { exitCode, stdout } = runBun('run', 'app.coffee');
+
+		expect(exitCode).toBe(0);
+		expect(stdout).toContain(`${join(tempDir, 'app.coffee')}:2:`);
+	});
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { type PluginOptions } from '../src/index.ts';
+
+describe('Import resolution', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-resolve-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Bundles an entrypoint importing the given specifier and returns the build result
+	 */
+	async function bundle(specifier: string, options?: PluginOptions, entry = 'entry.coffee') {
+		const entryFile = join(tempDir, entry);
+		await writeFile(
+			entryFile,
+			entry.endsWith('.ts')
+				? `import value from '${specifier}';\nconsole.log(value);\n`
+				: `import value from '${specifier}'\nconsole.log value\n`,
+		);
+
+		return Bun.build({ entrypoints: [entryFile], plugins: [Plugin(options)], throw: false });
+	}
+
+	test('resolves extensionless imports', async () => {
+		await writeFile(join(tempDir, 'helper.coffee'), "export default 'from helper'\n");
+
+		const { outputs, success } = await bundle('./helper');
+
+		expect(success).toBe(true);
+		expect(await outputs[0]?.text()).toContain('from helper');
+	});
+
+	test('resolves directory imports to index files', async () => {
+		await mkdir(join(tempDir, 'lib'));
+		await writeFile(join(tempDir, 'lib', 'index.litcoffee'), "# Library\n\n    export default 'from lib'\n");
+
+		const { outputs, success } = await bundle('./lib');
+
+		expect(success).toBe(true);
+		expect(await outputs[0]?.text()).toContain('from lib');
+	});
+
+	test('prefers files over index files', async () => {
+		await mkdir(join(tempDir, 'lib'));
+		await writeFile(join(tempDir, 'lib', 'index.coffee'), "export default 'from index'\n");
+		await writeFile(join(tempDir, 'lib.cson'), "name: 'from cson'\n");
+
+		const { outputs, success } = await bundle('./lib');
+
+		expect(success).toBe(true);
+		expect(await outputs[0]?.text()).toContain('from cson');
+	});
+
+	test('reports ambiguous imports', async () => {
+		await writeFile(join(tempDir, 'helper.coffee'), "export default 'from coffee'\n");
+		await writeFile(join(tempDir, 'helper.cson'), "name: 'from cson'\n");
+
+		const { logs, success } = await bundle('./helper');
+
+		expect(success).toBe(false);
+		expect(logs[0]?.message).toContain('Ambiguous import "./helper"');
+		expect(logs[0]?.message).toContain('helper.coffee, helper.cson');
+	});
+
+	test('tries only the configured extensions', async () => {
+		await writeFile(join(tempDir, 'helper.coffee'), "export default 'from coffee'\n");
+		await writeFile(join(tempDir, 'helper.cson'), "name: 'from cson'\n");
+
+		const { outputs, success } = await bundle('./helper', { resolve: { extensions: ['.cson'] } });
+
+		expect(success).toBe(true);
+		expect(await outputs[0]?.text()).toContain('from cson');
+	});
+
+	test('leaves other imports to Bun', async () => {
+		await writeFile(join(tempDir, 'helper.ts'), "export default 'from typescript';\n");
+
+		const { outputs, success } = await bundle('./helper');
+
+		expect(success).toBe(true);
+		expect(await outputs[0]?.text()).toContain('from typescript');
+	});
+
+	test('prefers files Bun resolves in other modules', async () => {
+		await writeFile(join(tempDir, 'helper.ts'), "export default 'from typescript';\n");
+		await writeFile(join(tempDir, 'helper.coffee'), "export default 'from coffee'\n");
+
+		const fromTypeScript = await bundle('./helper', undefined, 'entry.ts');
+		const fromCoffeeScript = await bundle('./helper');
+
+		expect(await fromTypeScript.outputs[0]?.text()).toContain('from typescript');
+		expect(await fromCoffeeScript.outputs[0]?.text()).toContain('from coffee');
+	});
+
+	test("resolves imports Bun can't resolve in other modules", async () => {
+		await writeFile(join(tempDir, 'helper.coffee'), "export default 'from coffee'\n");
+
+		const { outputs, success } = await bundle('./helper', undefined, 'entry.ts');
+
+		expect(success).toBe(true);
+		expect(await outputs[0]?.text()).toContain('from coffee');
+	});
+
+	test('can be turned off', async () => {
+		await writeFile(join(tempDir, 'helper.coffee'), "export default 'from helper'\n");
+
+		const { logs, success } = await bundle('./helper', { resolve: false });
+
+		expect(success).toBe(false);
+		expect(logs[0]?.message).toContain('Could not resolve: "./helper"');
+	});
+});
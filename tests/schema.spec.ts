@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { type JsonSchema, SchemaValidationError, validateSchema } from '../src/index.ts';
+import { getOnLoadCallback, getRejection, isObjectResult } from './helpers.ts';
+
+const databaseSchema: JsonSchema = {
+	type: 'object',
+	required: ['database'],
+	properties: {
+		database: {
+			type: 'object',
+			required: ['host', 'port'],
+			additionalProperties: false,
+			properties: {
+				host: { type: 'string', minLength: 1 },
+				port: { type: 'integer', minimum: 1, maximum: 65535 },
+				replicas: { type: 'array', items: { $ref: '#/$defs/replica' } },
+			},
+		},
+	},
+	$defs: {
+		replica: {
+			type: 'object',
+			required: ['host'],
+			properties: {
+				host: { type: 'string' },
+				role: { enum: ['primary', 'secondary'] },
+			},
+		},
+	},
+};
+
+describe('Schema validation', () => {
+	describe('validateSchema', () => {
+		test('accepts matching values', () => {
+			const value = { database: { host: 'localhost', port: 5432, replicas: [{ host: 'replica', role: 'secondary' }] } };
+
+			expect(validateSchema(value, databaseSchema)).toEqual([]);
+		});
+
+		test('reports nested paths', () => {
+			const value = { database: { host: '', port: 54.32, user: 'admin' } };
+
+			expect(validateSchema(value, databaseSchema)).toEqual([
+				{ path: 'database.host', message: 'expected at least 1 characters' },
+				{ path: 'database.port', message: 'expected integer, got number' },
+				{ path: 'database.user', message: 'is not an allowed property' },
+			]);
+		});
+
+		test('reports array items', () => {
+			const value = { database: { host: 'localhost', port: 5432, replicas: [{ host: 'a' }, { role: 'tertiary' }] } };
+
+			expect(validateSchema(value, databaseSchema)).toEqual([
+				{ path: 'database.replicas[1].host', message: 'is required' },
+				{ path: 'database.replicas[1].role', message: 'expected one of "primary", "secondary"' },
+			]);
+		});
+
+		test('reports the root value', () => {
+			expect(validateSchema([], databaseSchema)).toEqual([{ path: '(root)', message: 'expected object, got array' }]);
+		});
+
+		test('supports combinators', () => {
+			const schema: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'number', exclusiveMinimum: 0 }] };
+
+			expect(validateSchema('text', schema)).toEqual([]);
+			expect(validateSchema(1, schema)).toEqual([]);
+			expect(validateSchema(0, schema)).toEqual([
+				{ path: '(root)', message: 'expected to match at least one of the allowed schemas' },
+			]);
+		});
+	});
+
+	describe('CSON files', () => {
+		let tempDir: string;
+
+		beforeEach(async () => {
+			tempDir = await mkdtemp(join(tmpdir(), 'bun-cson-schema-'));
+			await writeFile(join(tempDir, 'database.schema.json'), JSON.stringify(databaseSchema));
+		});
+
+		afterEach(async () => {
+			await rm(tempDir, { recursive: true, force: true });
+		});
+
+		test('validates files matching a glob', async () => {
+			const csonFile = join(tempDir, 'database.cson');
+			await writeFile(csonFile, 'database:\n  host: "localhost"\n  port: "5432"\n');
+
+			const plugin = Plugin({ schemas: [{ include: `${tempDir}/*.cson`, schema: databaseSchema }] });
+			const error = await getRejection(getOnLoadCallback(plugin)({ path: csonFile }));
+
+			if (!(error instanceof SchemaValidationError)) throw new Error('Expected SchemaValidationError');
+			expect(error.file).toBe(csonFile);
+			expect(error.message).toBe(
+				`${csonFile} does not match its schema:\n  database.port: expected integer, got string`,
+			);
+		});
+
+		test('loads schemas from files', async () => {
+			const csonFile = join(tempDir, 'database.cson');
+			await writeFile(csonFile, 'database:\n  host: "localhost"\n');
+
+			const plugin = Plugin({
+				schemas: [{ include: `${tempDir}/**`, schema: join(tempDir, 'database.schema.json') }],
+			});
+			const error = await getRejection(getOnLoadCallback(plugin)({ path: csonFile }));
+
+			if (!(error instanceof SchemaValidationError)) throw new Error('Expected SchemaValidationError');
+			expect(error.issues).toEqual([{ path: 'database.port', message: 'is required' }]);
+		});
+
+		test('validates against the $schema key', async () => {
+			const csonFile = join(tempDir, 'database.cson');
+			await writeFile(
+				csonFile,
+				'$schema: "./database.schema.json"\ndatabase:\n  host: "localhost"\n  port: 5432\n  replicas: [\n    { role: "primary" }\n  ]\n',
+			);
+
+			const error = await getRejection(getOnLoadCallback(Plugin())({ path: csonFile }));
+
+			if (!(error instanceof SchemaValidationError)) throw new Error('Expected SchemaValidationError');
+			expect(error.issues).toEqual([{ path: 'database.replicas[0].host', message: 'is required' }]);
+		});
+
+		test('loads valid files', async () => {
+			const csonFile = join(tempDir, 'database.cson');
+			await writeFile(csonFile, '$schema: "./database.schema.json"\ndatabase:\n  host: "localhost"\n  port: 5432\n');
+
+			const result = await getOnLoadCallback(Plugin())({ path: csonFile });
+
+			if (!isObjectResult(result)) throw new Error('Expected object result');
+			expect(result.exports).toEqual({
+				$schema: './database.schema.json',
+				database: { host: 'localhost', port: 5432 },
+			});
+		});
+
+		test('ignores remote schemas', async () => {
+			const csonFile = join(tempDir, 'remote.cson');
+			await writeFile(csonFile, '$schema: "https://json.schemastore.org/package.json"\nname: 42\n');
+
+			const result = await getOnLoadCallback(Plugin())({ path: csonFile });
+
+			expect(isObjectResult(result)).toBe(true);
+		});
+	});
+});
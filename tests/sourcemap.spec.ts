@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import Plugin from '../src/index.ts';
+import { getOnLoadCallback, isSourceResult, readInlineSourceMap } from './helpers.ts';
+
+const pluginFile = resolve(import.meta.dir, '../src/index.ts');
+
+describe('Source maps', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-map-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test('does not emit a source map by default', async () => {
+		const coffeeFile = join(tempDir, 'default.coffee');
+		await writeFile(coffeeFile, 'square = (x) -> x * x');
+
+		const result = await getOnLoadCallback(Plugin())({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents).not.toContain('sourceMappingURL');
+	});
+
+	test('embeds an inline source map pointing at the original file', async () => {
+		const coffeeFile = join(tempDir, 'inline.coffee');
+		const coffeeSource = 'square = (x) -> x * x\n';
+		await writeFile(coffeeFile, coffeeSource);
+
+		const result = await getOnLoadCallback(Plugin({ sourcemap: 'inline' }))({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		const sourceMap = readInlineSourceMap(result.contents);
+		expect(sourceMap.version).toBe(3);
+		expect(sourceMap.sources).toEqual([coffeeFile]);
+		expect(sourceMap.sourcesContent).toEqual([coffeeSource]);
+		expect(sourceMap.mappings.length).toBeGreaterThan(0);
+	});
+
+	test('keeps external source maps out of the output and the source tree', async () => {
+		const coffeeFile = join(tempDir, 'external.coffee');
+		await writeFile(coffeeFile, 'square = (x) -> x * x\n');
+
+		const result = await getOnLoadCallback(Plugin({ sourcemap: 'external' }))({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents).not.toContain('sourceMappingURL');
+		expect(await readdir(tempDir)).toEqual(['external.coffee']);
+	});
+
+	test('ignores the inlineMap compiler option', async () => {
+		const coffeeFile = join(tempDir, 'inline-map.coffee');
+		await writeFile(coffeeFile, 'square = (x) -> x * x\n');
+
+		const result = await getOnLoadCallback(Plugin({ inlineMap: true, sourcemap: 'inline' }))({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents.match(/sourceMappingURL/g)).toHaveLength(1);
+	});
+
+	test('reports CoffeeScript positions in runtime stack traces with the stackTraces option', async () => {
+		await writeFile(join(tempDir, 'throws.coffee'), "answer = 42\n\nexport fail = ->\n  throw new Error 'boom'\n");
+		await writeFile(
+			join(tempDir, 'main.ts'),
+			[
+				`import Plugin from ${JSON.stringify(pluginFile)};`,
+				"Bun.plugin(Plugin({ config: false, sourcemap: 'external', stackTraces: true }));",
+				"const { fail } = await import('./throws.coffee');",
+				'try {',
+				'\tfail();',
+				'} catch (error) {',
+				'\tconsole.log(error.stack);',
+				'}',
+			].join('\n'),
+		);
+
+		const child = Bun.spawn({ cmd: [process.execPath, 'main.ts'], cwd: tempDir, stderr: 'pipe' });
+		const stack = await new Response(child.stdout).text();
+
+		expect(await child.exited).toBe(0);
+		expect(stack).toContain('Error: boom');
+		expect(stack).toContain(`${join(tempDir, 'throws.coffee')}:4:`);
+	}, 20000);
+
+	test('leaves stack traces alone by default', () => {
+		const prepareStackTrace = Error.prepareStackTrace;
+
+		Plugin({ config: false, sourcemap: 'inline' });
+
+		expect(Error.prepareStackTrace).toBe(prepareStackTrace);
+	});
+});
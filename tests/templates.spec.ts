@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import Plugin from '../src/index.ts';
+import { rewriteTemplates } from '../src/templates.ts';
+
+const tagFile = resolve(import.meta.dir, '../src/tag.ts');
+
+/**
+ * Bundles the entrypoint, returning the build log messages
+ */
+async function getBuildErrors(entrypoint: string, options: Parameters<typeof Plugin>[0]): Promise<string> {
+	const { logs } = await Bun.build({
+		entrypoints: [entrypoint],
+		plugins: [Plugin({ config: false, ...options })],
+		throw: false,
+	});
+
+	return logs.map(({ message }) => message).join('\n');
+}
+
+describe('Templates and virtual modules', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-template-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Bundles the entrypoint and runs the bundle, returning its output
+	 */
+	async function buildAndRun(entrypoint: string, options: Parameters<typeof Plugin>[0]): Promise<string> {
+		const result = await Bun.build({
+			entrypoints: [join(tempDir, entrypoint)],
+			outdir: join(tempDir, 'dist'),
+			target: 'bun',
+			plugins: [Plugin({ config: false, ...options })],
+		});
+
+		if (!result.success) throw new Error(result.logs.join('\n'));
+
+		const { stdout } = Bun.spawnSync({ cmd: [process.execPath, join(tempDir, 'dist', 'app.js')] });
+
+		return stdout.toString().trim();
+	}
+
+	test('replaces coffee templates by the compiled module', async () => {
+		await writeFile(
+			join(tempDir, 'app.ts'),
+			[
+				`import { coffee } from '${tagFile}';`,
+				'',
+				'const { square, cube } = coffee`',
+				'  export square = (x) -> x * x',
+				'  export cube = (x) -> x * square x',
+				'`;',
+				'',
+				'console.log(square(4), cube(2));',
+			].join('\n'),
+		);
+
+		expect(await buildAndRun('app.ts', { templates: true })).toBe('16 8');
+	});
+
+	test('keeps the lines of the host file in place', () => {
+		const source = 'const math = coffee`\n  export one = 1\n`;\nconsole.log(math.one);\n';
+		const rewritten = rewriteTemplates('/src/app.ts', source);
+
+		expect(rewritten.split('\n').slice(0, 4)).toEqual([
+			'const math = (coffeeTemplate$0',
+			'',
+			');',
+			'console.log(math.one);',
+		]);
+		expect(rewritten).toContain("import * as coffeeTemplate$0 from './app.ts?coffee-template=0';");
+	});
+
+	test('ignores tags in comments, strings and other template literals', async () => {
+		const source = [
+			'// const math = coffee`export one = 1`;',
+			"const quoted = 'coffee`export one = 1`';",
+			'const pattern = /coffee`x`/;',
+			'const text = `coffee\\`export one = 1\\``;',
+			'const math = coffee`export two = 2`;',
+		].join('\n');
+		const rewritten = rewriteTemplates('/src/app.ts', source);
+
+		expect(rewritten.split('\n').slice(0, 5)).toEqual([
+			...source.split('\n').slice(0, 4),
+			'const math = (coffeeTemplate$0);',
+		]);
+		expect(rewritten).not.toContain('coffee-template=1');
+		expect(rewriteTemplates(tagFile, await Bun.file(tagFile).text())).toBe(await Bun.file(tagFile).text());
+	});
+
+	test('reports errors at their position in the host file', async () => {
+		const hostFile = join(tempDir, 'app.ts');
+		await writeFile(
+			hostFile,
+			'console.log("before");\n\nconst math = coffee`\n  export one = 1\n  export two = (\n`;\n',
+		);
+
+		expect(await getBuildErrors(hostFile, { templates: true })).toContain(`${hostFile}:5:16: missing )`);
+	});
+
+	test('rejects placeholders in templates', async () => {
+		const hostFile = join(tempDir, 'app.ts');
+		await writeFile(hostFile, 'const x = 1;\nconst math = coffee`export y = \u0024{x}`;\n');
+
+		expect(await getBuildErrors(hostFile, { templates: true })).toContain(
+			`${hostFile}:2:32: placeholders are not supported`,
+		);
+	});
+
+	test('loads virtual modules registered by name', async () => {
+		await writeFile(join(tempDir, 'app.ts'), "import { square } from 'coffee:math';\n\nconsole.log(square(5));\n");
+
+		const output = await buildAndRun('app.ts', { modules: { math: 'export square = (x) -> x * x\n' } });
+
+		expect(output).toBe('25');
+	});
+
+	test('fails on virtual modules that are not registered', async () => {
+		await writeFile(join(tempDir, 'app.ts'), "import 'coffee:missing';\n");
+
+		expect(await getBuildErrors(join(tempDir, 'app.ts'), { modules: {} })).toContain(
+			'There is no CoffeeScript module "coffee:missing"',
+		);
+	});
+
+	test('reports errors in virtual modules by their name', async () => {
+		await writeFile(join(tempDir, 'app.ts'), "import 'coffee:broken';\n");
+
+		const errors = await getBuildErrors(join(tempDir, 'app.ts'), { modules: { broken: 'x = 1\nif\n' } });
+
+		expect(errors).toContain('coffee:broken:2:1: unexpected if');
+	});
+});
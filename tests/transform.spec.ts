@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { type TransformContext } from '../src/index.ts';
+import { getOnLoadCallback, isObjectResult, isSourceResult, readInlineSourceMap } from './helpers.ts';
+
+describe('Transform hooks', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-transform-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test('transforms the source before compiling it', async () => {
+		const coffeeFile = join(tempDir, 'constants.coffee');
+		await writeFile(coffeeFile, 'export version = __VERSION__\n');
+
+		const plugin = Plugin({
+			config: false,
+			transform: {
+				before: async (source) => source.replace(/__VERSION__/g, JSON.stringify('1.2.3')),
+			},
+		});
+		const result = await getOnLoadCallback(plugin)({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(result.contents).toContain('export var version = "1.2.3";');
+	});
+
+	test('passes the path and the options that apply to the file', async () => {
+		const coffeeFile = join(tempDir, 'context.coffee');
+		await writeFile(coffeeFile, '# @coffee bare: true\nx = 1\n');
+		const contexts: TransformContext[] = [];
+
+		const plugin = Plugin({
+			config: false,
+			overrides: [{ include: '**/context.coffee', options: { header: true } }],
+			transform: {
+				before: (source, context) => {
+					contexts.push(context);
+
+					return source;
+				},
+			},
+		});
+		await getOnLoadCallback(plugin)({ path: coffeeFile });
+
+		expect(contexts).toHaveLength(1);
+		expect(contexts[0]).toMatchObject({
+			path: coffeeFile,
+			format: 'coffeescript',
+			options: { bare: true, header: true },
+		});
+	});
+
+	test('keeps the source map in line with code added by the after hook', async () => {
+		const coffeeFile = join(tempDir, 'banner.coffee');
+		await writeFile(coffeeFile, 'square = (x) -> x * x\n');
+
+		const compile = async (after?: (js: string) => string) => {
+			const plugin = Plugin({ config: false, sourcemap: 'inline', transform: { after } });
+			const result = await getOnLoadCallback(plugin)({ path: coffeeFile });
+			if (!isSourceResult(result)) throw new Error('Expected source result');
+
+			return result.contents;
+		};
+
+		const contents = await compile((js) => `/*! License: MIT */\n${js}`);
+		const { mappings } = readInlineSourceMap(await compile());
+
+		expect(contents.startsWith('/*! License: MIT */\n')).toBe(true);
+		expect(readInlineSourceMap(contents).mappings).toBe(`;${mappings}`);
+	});
+
+	test('uses the source map returned by the after hook', async () => {
+		const coffeeFile = join(tempDir, 'custom-map.coffee');
+		await writeFile(coffeeFile, 'square = (x) -> x * x\n');
+		let compilerMap: TransformContext['sourceMap'];
+
+		const plugin = Plugin({
+			config: false,
+			sourcemap: 'inline',
+			transform: {
+				after: (code, { sourceMap }) => {
+					compilerMap = sourceMap;
+
+					return sourceMap ? { code: `${code}\n`, map: { ...sourceMap, mappings: 'AAAA' } } : code;
+				},
+			},
+		});
+		const result = await getOnLoadCallback(plugin)({ path: coffeeFile });
+
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+		expect(compilerMap?.sources).toEqual([coffeeFile]);
+		expect(readInlineSourceMap(result.contents).mappings).toBe('AAAA');
+	});
+
+	test('applies to CSON before and after parsing', async () => {
+		const csonFile = join(tempDir, 'config.cson');
+		await writeFile(csonFile, "port: 8080\nhost: '__HOST__'\n");
+		const formats: string[] = [];
+
+		const plugin = Plugin({
+			config: false,
+			transform: {
+				before: (source, { format }) => {
+					formats.push(format);
+
+					return source.replace('__HOST__', 'localhost');
+				},
+				after: (json, { format }) => {
+					formats.push(format);
+
+					return JSON.stringify({ ...JSON.parse(json), debug: false });
+				},
+			},
+		});
+		const result = await getOnLoadCallback(plugin)({ path: csonFile });
+
+		if (!isObjectResult(result)) throw new Error('Expected object result');
+		expect(result.exports).toEqual({ port: 8080, host: 'localhost', debug: false });
+		expect(formats).toEqual(['cson', 'cson']);
+	});
+});
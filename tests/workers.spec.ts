@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { CoffeeScriptError, ConfigError, type PluginOptions } from '../src/index.ts';
+import { createWorkerPool } from '../src/workers.ts';
+import { getOnLoadCallback, isSourceResult } from './helpers.ts';
+
+describe('Compiler workers', () => {
+	let tempDir: string;
+	let entryFile: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-workers-'));
+		entryFile = join(tempDir, 'entry.coffee');
+
+		const modules = Array.from({ length: 8 }, (_, index) => `module${index}`);
+
+		await Promise.all(
+			modules.map((name, index) =>
+				writeFile(join(tempDir, `${name}.coffee`), `export ${name} = (x) -> x * ${index} for x in [1..3]\n`),
+			),
+		);
+		await writeFile(join(tempDir, 'legacy.coffee'), '# @coffee bare: false\nlegacy = -> 42\n');
+		await writeFile(
+			entryFile,
+			[
+				...modules.map((name) => `import { ${name} } from './${name}.coffee'`),
+				"import './legacy.coffee'",
+				`console.log ${modules.join(', ')}`,
+				'',
+			].join('\n'),
+		);
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Bundles the entrypoint and returns the bundle
+	 */
+	async function bundle(options: PluginOptions): Promise<string> {
+		const { outputs, success } = await Bun.build({
+			entrypoints: [entryFile],
+			plugins: [Plugin({ config: false, ...options })],
+			throw: false,
+		});
+
+		expect(success).toBe(true);
+
+		return (await outputs[0]?.text()) ?? '';
+	}
+
+	test('produces the same output as the main thread', async () => {
+		const options: PluginOptions = {
+			sourcemap: 'inline',
+			overrides: [{ include: join(tempDir, 'module1.coffee'), options: { bare: false } }],
+		};
+
+		const output = await bundle({ ...options, workers: 3 });
+
+		expect(output).toBe(await bundle(options));
+		expect(output).toContain('x * 7');
+	});
+
+	test('reports syntax errors in the same shape', async () => {
+		const brokenFile = join(tempDir, 'broken.coffee');
+		await writeFile(brokenFile, 'square = (x) ->\n  x * (x\n');
+
+		const errors = await Promise.all(
+			[{ workers: 2 }, {}].map((options) =>
+				getOnLoadCallback(Plugin({ config: false, ...options }))({ path: brokenFile }).catch((error) => error),
+			),
+		);
+
+		expect(errors[0]).toBeInstanceOf(CoffeeScriptError);
+		expect(errors[0].message).toBe(errors[1].message);
+		expect([errors[0].line, errors[0].column]).toEqual([errors[1].line, errors[1].column]);
+	});
+
+	test('restarts workers after the pool was terminated', async () => {
+		const pool = createWorkerPool(1);
+		const request = {
+			fileContents: 'x = 1\n',
+			path: 'x.coffee',
+			compilerOptions: { bare: true },
+			sourcemap: 'none' as const,
+		};
+
+		expect((await pool.compile(request)).js).toBe('var x;\n\nx = 1;\n');
+		pool.terminate();
+		expect((await pool.compile(request)).js).toBe('var x;\n\nx = 1;\n');
+		pool.terminate();
+	});
+
+	test('rejects pending compilations on termination', async () => {
+		const pool = createWorkerPool(1);
+		const compilation = pool.compile({
+			fileContents: 'x = 1\n',
+			path: 'x.coffee',
+			compilerOptions: {},
+			sourcemap: 'none',
+		});
+
+		pool.terminate();
+
+		expect(await compilation.catch((error: Error) => error.message)).toBe('The compiler workers were terminated');
+	});
+
+	test('compiles with the jsx loader', async () => {
+		const componentFile = join(tempDir, 'component.coffee');
+		await writeFile(componentFile, 'export default -> <p>Hello</p>\n');
+
+		const result = await getOnLoadCallback(Plugin({ config: false, workers: 'auto' }))({ path: componentFile });
+		if (!isSourceResult(result)) throw new Error('Expected source result');
+
+		expect(result.loader).toBe('jsx');
+	});
+
+	test('rejects an invalid number of workers', () => {
+		expect(() => Plugin({ config: false, workers: 0 })).toThrow(ConfigError);
+	});
+});
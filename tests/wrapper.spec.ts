@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Plugin, { type ModuleMode } from '../src/index.ts';
+import { getOnLoadCallback, isSourceResult } from './helpers.ts';
+
+const WRAPPER = '(function() {';
+
+describe('Module mode', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), 'bun-coffee-wrapper-'));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	async function compile(source: string, options: { moduleMode?: ModuleMode; bare?: boolean }) {
+		const coffeeFile = join(tempDir, 'app.coffee');
+		await writeFile(coffeeFile, source);
+		const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+		try {
+			const result = await getOnLoadCallback(Plugin({ config: false, ...options }))({ path: coffeeFile });
+
+			if (!isSourceResult(result)) throw new Error('Expected source result');
+			return { contents: String(result.contents), warnings: warn.mock.calls.map(([message]) => String(message)) };
+		} finally {
+			warn.mockRestore();
+		}
+	}
+
+	test('keeps the wrapper by default', async () => {
+		const { contents } = await compile('square = (x) -> x * x\n', {});
+
+		expect(contents).toContain(WRAPPER);
+	});
+
+	test('compiles scripts bare in auto mode', async () => {
+		const { contents, warnings } = await compile(
+			'class Point\n  constructor: (@x) ->\n  getX: -> @x\nsquare = (x) -> return x * x\n',
+			{ moduleMode: 'auto' },
+		);
+
+		expect(contents).not.toContain(WRAPPER);
+		expect(contents).toContain('var Point, square;');
+		expect(warnings).toEqual([]);
+	});
+
+	test.each([
+		['@version = 1\n', 1, 1, 'assigning to top-level this'],
+		['x = 1\nconsole.log this\n', 2, 13, 'top-level this is undefined in a module'],
+		['log = => console.log arguments\n', 1, 22, 'top-level arguments is not defined in a module'],
+		['x = 1\nreturn if x\n', 2, 1, 'top-level return is a syntax error in a module'],
+	])('keeps the wrapper and warns about %p in auto mode', async (source, line, column, reason) => {
+		const { contents, warnings } = await compile(source, { moduleMode: 'auto' });
+
+		expect(contents).toContain(WRAPPER);
+		expect(warnings).toHaveLength(1);
+		expect(warnings[0]).toStartWith(`${join(tempDir, 'app.coffee')}:${line}:${column}: ${reason}`);
+	});
+
+	test('compiles bare in module mode without warnings', async () => {
+		const { contents, warnings } = await compile('@version = 1\n', { moduleMode: 'module' });
+
+		expect(contents).not.toContain(WRAPPER);
+		expect(warnings).toEqual([]);
+	});
+
+	test('keeps the wrapper in script mode', async () => {
+		const { contents } = await compile('x = 1\n', { moduleMode: 'script' });
+
+		expect(contents).toContain(WRAPPER);
+	});
+
+	test('gives precedence to the bare option', async () => {
+		const { contents, warnings } = await compile('@version = 1\n', { moduleMode: 'auto', bare: true });
+
+		expect(contents).not.toContain(WRAPPER);
+		expect(warnings).toEqual([]);
+	});
+});